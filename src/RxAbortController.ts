@@ -0,0 +1,66 @@
+import { defer, Observable } from "rxjs";
+import { finalize, tap } from "rxjs/operators";
+
+// The subset of the DOM AbortSignal that fetchers can rely on, a native AbortSignal is passed where available
+// so it can be handed straight to `fetch`
+export interface IRxAbortSignal {
+  readonly aborted: boolean;
+  addEventListener(type: "abort", listener: () => void): void;
+  removeEventListener(type: "abort", listener: () => void): void;
+}
+
+export interface IRxAbortController {
+  readonly signal: IRxAbortSignal;
+  abort(): void;
+}
+
+declare const AbortController: (new () => IRxAbortController) | undefined;
+
+// Stands in for AbortController on platforms that don't have one
+export class RxAbortController implements IRxAbortController {
+  public readonly signal: IRxAbortSignal;
+  private readonly mutableSignal: Omit<IRxAbortSignal, "aborted"> & { aborted: boolean };
+  private listeners: (() => void)[] = [];
+
+  constructor() {
+    this.mutableSignal = {
+      aborted: false,
+      addEventListener: (_, listener) => {
+        this.listeners.push(listener);
+      },
+      removeEventListener: (_, listener) => {
+        this.listeners = this.listeners.filter((existing) => existing !== listener);
+      },
+    };
+    this.signal = this.mutableSignal;
+  }
+
+  public abort(): void {
+    if (!this.mutableSignal.aborted) {
+      this.mutableSignal.aborted = true;
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+}
+
+export const createAbortController = (): IRxAbortController =>
+  typeof AbortController !== "undefined" ? new AbortController() : new RxAbortController();
+
+// Calls `factory` with a fresh signal for every subscription. The signal is aborted when the subscription is
+// unsubscribed before the returned observable completes or errors.
+export const abortable = <R>(factory: (signal: IRxAbortSignal) => Observable<R>): Observable<R> =>
+  defer(() => {
+    const controller = createAbortController();
+    let settled = false;
+    return factory(controller.signal).pipe(
+      tap({
+        complete: () => settled = true,
+        error: () => settled = true,
+      }),
+      finalize(() => {
+        if (!settled) {
+          controller.abort();
+        }
+      }),
+    );
+  });
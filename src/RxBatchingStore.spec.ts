@@ -1,6 +1,12 @@
-import { from, Observable, of } from "rxjs";
+import { from, Observable, of, Subject, throwError } from "rxjs";
 import { concatMap, delay, take, toArray } from "rxjs/operators";
-import { RxBatchFetchingFunction, RxBatchingStore, IRxBatchSingleResponse } from "./RxBatchingStore";
+import {
+  IRxBatchingStoreConfig,
+  IRxBatchSingleResponse,
+  RxBatchFetchingFunction,
+  RxBatchingStore,
+} from "./RxBatchingStore";
+import { IRxAbortSignal } from "./RxAbortController";
 import { storeFilterOutLoading, storeMapToError, storeMapToValue } from "./RxStoreUtil";
 
 interface ITestObj {
@@ -14,9 +20,9 @@ type TExtra = string;
 class TestStore extends RxBatchingStore<ITestObj, TRequest, TExtra> {
   constructor(
     fetcher: RxBatchFetchingFunction<ITestObj, TRequest, TExtra>,
-    deleteFromCacheTimeMS?: number,
+    config?: IRxBatchingStoreConfig<ITestObj, TRequest, TExtra, string>,
   ) {
-    super(fetcher, (err) => err.message, deleteFromCacheTimeMS);
+    super(fetcher, (err) => err.message, config);
   }
 }
 
@@ -39,7 +45,7 @@ describe("RxBatchingStore", () => {
       ];
       mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(toDelayedOb(fetcherResults));
       const bufferTimeMs = 1;
-      batchingStore = new TestStore(mockBatchFetcher, bufferTimeMs);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: bufferTimeMs });
     });
 
     it("returns observable", () => {
@@ -52,7 +58,7 @@ describe("RxBatchingStore", () => {
       await of(undefined)
         .pipe(delay(2))
         .toPromise();
-      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM }]);
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM }], jasmine.anything());
     });
 
     it("calls mockBatchFetcher with both buffered requests", async () => {
@@ -62,7 +68,10 @@ describe("RxBatchingStore", () => {
       await of(undefined)
         .pipe(delay(2))
         .toPromise();
-      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM }, { request: TEST_PARAM2 }]);
+      expect(mockBatchFetcher).toHaveBeenCalledWith(
+        [{ request: TEST_PARAM }, { request: TEST_PARAM2 }],
+        jasmine.anything(),
+      );
     });
 
     it("batchFetcher is called with both request and extra (when provided)", async () => {
@@ -71,7 +80,10 @@ describe("RxBatchingStore", () => {
       await of(undefined)
         .pipe(delay(2))
         .toPromise();
-      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM, extra: "ExtraParams" }]);
+      expect(mockBatchFetcher).toHaveBeenCalledWith(
+        [{ request: TEST_PARAM, extra: "ExtraParams" }],
+        jasmine.anything(),
+      );
     });
 
     it("if batchFetcher returns error is promoted", async () => {
@@ -83,7 +95,7 @@ describe("RxBatchingStore", () => {
 
       mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(observableResultStream);
       const bufferTimeMs = 1;
-      batchingStore = new TestStore(mockBatchFetcher, bufferTimeMs);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: bufferTimeMs });
       const emittedValue = await batchingStore
         .getStore(TEST_PARAM)
         .pipe(storeFilterOutLoading, storeMapToError, take(1), toArray())
@@ -91,10 +103,86 @@ describe("RxBatchingStore", () => {
       expect(emittedValue).toEqual(["BatchTestError"]);
     });
 
+    it("retries only the failed items of a batch", async () => {
+      const fetcherResults: IRxBatchSingleResponse<ITestObj, TRequest>[] = [
+        { request: TEST_PARAM, response: TEST_RESULT },
+        { request: TEST_PARAM2, error: new Error("BatchTestError"), response: undefined },
+      ];
+      const retriedResults: IRxBatchSingleResponse<ITestObj, TRequest>[] = [
+        { request: TEST_PARAM2, response: TEST_RESULT2 },
+      ];
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValues(of(fetcherResults), of(retriedResults));
+      const bufferTimeMs = 1;
+      batchingStore = new TestStore(mockBatchFetcher, {
+        bufferTimeMS: bufferTimeMs,
+        retry: { maxAttempts: 2, baseDelayMS: 5, jitter: false },
+      });
+      batchingStore.getStore(TEST_PARAM).subscribe();
+      const emittedValues = await batchingStore
+        .getStore(TEST_PARAM2)
+        .pipe(storeFilterOutLoading, storeMapToValue, take(1), toArray())
+        .toPromise();
+      expect(emittedValues).toEqual([TEST_RESULT2]);
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(2);
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM2 }], jasmine.anything());
+    });
+
+    it("rolls back a rejected optimistic update", async () => {
+      const latestValue = () => batchingStore.getStore(TEST_PARAM).pipe(take(1), storeMapToValue).toPromise();
+      await batchingStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      const result = batchingStore.mutate(TEST_PARAM, TEST_RESULT2, throwError(new Error("Rejected"))).toPromise();
+      expect((await result).error).toEqual("Rejected");
+      expect(await latestValue()).toEqual(TEST_RESULT);
+    });
+
+    it("splits batches larger than maxBatchSize into chunks", async () => {
+      const echoFetcher: RxBatchFetchingFunction<ITestObj, TRequest, TExtra> = (requests) =>
+        of(requests.map(({ request }) => ({ request, response: { test: request } })));
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.callFake(echoFetcher);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 10, maxBatchSize: 2 });
+      const params = ["A", "B", "C", "D", "E"];
+      const emittedValues = await Promise.all(params.map((param) =>
+        batchingStore.getStore(param).pipe(storeFilterOutLoading, storeMapToValue, take(1)).toPromise(),
+      ));
+      expect(emittedValues).toEqual(params.map((param) => ({ test: param })));
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(3);
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: "A" }, { request: "B" }], jasmine.anything());
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: "C" }, { request: "D" }], jasmine.anything());
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: "E" }], jasmine.anything());
+    });
+
+    it("flushes the buffer as soon as maxBatchSize is reached", () => {
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1000, maxBatchSize: 2 });
+      batchingStore.getStore(TEST_PARAM).subscribe();
+      expect(mockBatchFetcher).not.toHaveBeenCalled();
+      batchingStore.getStore(TEST_PARAM2).subscribe();
+      expect(mockBatchFetcher).toHaveBeenCalledWith(
+        [{ request: TEST_PARAM }, { request: TEST_PARAM2 }],
+        jasmine.anything(),
+      );
+    });
+
+    it("caps the number of batches in flight with maxConcurrentBatches", async () => {
+      const responses = [new Subject<IRxBatchSingleResponse<ITestObj, TRequest>[]>(), new Subject()];
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValues(...responses);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1000, maxBatchSize: 1, maxConcurrentBatches: 1 });
+      batchingStore.getStore(TEST_PARAM).subscribe();
+      const param2Value = batchingStore.getStore(TEST_PARAM2).pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(1);
+
+      responses[0].next([{ request: TEST_PARAM, response: TEST_RESULT }]);
+      responses[0].complete();
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(2);
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM2 }], jasmine.anything());
+      responses[1].next([{ request: TEST_PARAM2, response: TEST_RESULT2 }]);
+      responses[1].complete();
+      expect((await param2Value).value).toEqual(TEST_RESULT2);
+    });
+
     it("if batchFetcher returns no value for request, undefined is returned", async () => {
       mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(of([]));
       const bufferTimeMs = 1;
-      batchingStore = new TestStore(mockBatchFetcher, bufferTimeMs);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: bufferTimeMs });
       const emittedValues = await batchingStore
         .getStore(TEST_PARAM)
         .pipe(storeFilterOutLoading, storeMapToValue, take(1), toArray())
@@ -115,7 +203,7 @@ describe("RxBatchingStore", () => {
 
       mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(observableResultStream);
       const bufferTimeMs = 1;
-      batchingStore = new TestStore(mockBatchFetcher, bufferTimeMs);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: bufferTimeMs });
       const emittedValues2 = await batchingStore
         .getStore(TEST_PARAM)
         .pipe(storeFilterOutLoading, storeMapToValue, take(2), toArray())
@@ -141,7 +229,7 @@ describe("RxBatchingStore", () => {
 
       mockBatchFetcher = () => observableResultStream;
       const bufferTimeMs = 1;
-      batchingStore = new TestStore(mockBatchFetcher, bufferTimeMs);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: bufferTimeMs });
       let count = 0;
       batchingStore
         .getStore(TEST_PARAM)
@@ -166,4 +254,165 @@ describe("RxBatchingStore", () => {
         });
     });
   });
+
+  describe("config", () => {
+    it("uses the configured paramHasher to match responses to requests", async () => {
+      interface IKeyedRequest {
+        id: string;
+        traceId: number;
+      }
+      const keyedFetcher: RxBatchFetchingFunction<ITestObj, IKeyedRequest> = (requests) =>
+        of(requests.map(({ request }) => ({ request: { ...request, traceId: 0 }, response: { test: request.id } })));
+      const keyedStore = new RxBatchingStore<ITestObj, IKeyedRequest>(keyedFetcher, (err) => err.message, {
+        bufferTimeMS: 1,
+        paramHasher: (request) => request.id,
+      });
+      const emittedValue = await keyedStore
+        .getStore({ id: "A", traceId: 42 })
+        .pipe(storeFilterOutLoading, storeMapToValue, take(1))
+        .toPromise();
+      expect(emittedValue).toEqual({ test: "A" });
+    });
+
+    it("respects deleteFromCacheTimeMS", async () => {
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(of([]));
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1, deleteFromCacheTimeMS: 5 });
+      const store1 = batchingStore.getStore(TEST_PARAM);
+      store1.subscribe().unsubscribe();
+      expect(batchingStore.getStore(TEST_PARAM)).toBe(store1);
+      await of(undefined).pipe(delay(10)).toPromise();
+      expect(batchingStore.getStore(TEST_PARAM)).not.toBe(store1);
+    });
+  });
+
+  describe("batchKey", () => {
+    beforeEach(() => {
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.callFake((requests) =>
+        of(requests.map(({ request, extra }) => ({ request, response: { test: `${request}-${extra}` } }))),
+      );
+      batchingStore = new TestStore(mockBatchFetcher, { batchKey: (_, locale) => locale, bufferTimeMS: 1 });
+    });
+
+    it("sends a batch per partition", async () => {
+      batchingStore.getStore(TEST_PARAM, { extra: "en" }).subscribe();
+      batchingStore.getStore(TEST_PARAM2, { extra: "en" }).subscribe();
+      batchingStore.getStore(TEST_PARAM, { extra: "fr" }).subscribe();
+      await of(undefined).pipe(delay(2)).toPromise();
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(2);
+      expect(mockBatchFetcher).toHaveBeenCalledWith(
+        [{ request: TEST_PARAM, extra: "en" }, { request: TEST_PARAM2, extra: "en" }],
+        jasmine.anything(),
+      );
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM, extra: "fr" }], jasmine.anything());
+    });
+
+    it("caches each partition separately", async () => {
+      const [en, fr] = await Promise.all(["en", "fr"].map((extra) =>
+        batchingStore.getStore(TEST_PARAM, { extra }).pipe(storeFilterOutLoading, storeMapToValue, take(1)).toPromise(),
+      ));
+      expect(en).toEqual({ test: `${TEST_PARAM}-en` });
+      expect(fr).toEqual({ test: `${TEST_PARAM}-fr` });
+      expect(batchingStore.keys().length).toEqual(2);
+    });
+
+    it("updates, reads and restores the entry of the partition", async () => {
+      const values = [];
+      batchingStore.getStore(TEST_PARAM, { extra: "en" }).subscribe((state) => values.push(state.value));
+      batchingStore.updateStoreValue(TEST_PARAM, { test: "LOCAL" }, [], "en");
+      expect(batchingStore.keys().length).toEqual(1);
+      expect(values[values.length - 1]).toEqual({ test: "LOCAL" });
+      expect(batchingStore.has(TEST_PARAM, "en")).toBe(true);
+      expect(batchingStore.has(TEST_PARAM)).toBe(false);
+      expect(batchingStore.peek(TEST_PARAM, "en").value).toEqual({ test: "LOCAL" });
+
+      const restoredStore = new TestStore(mockBatchFetcher, { batchKey: (_, locale) => locale, bufferTimeMS: 1 });
+      restoredStore.hydrate(batchingStore.dehydrate());
+      expect(restoredStore.keys()).toEqual(batchingStore.keys());
+      expect(restoredStore.peek(TEST_PARAM, "en").value).toEqual({ test: "LOCAL" });
+
+      batchingStore.removeStoreValue(TEST_PARAM, "en");
+      expect(values[values.length - 1]).toBeUndefined();
+    });
+  });
+
+  describe("dedupeWindowMS", () => {
+    it("joins the batch already in flight for force refetches", async () => {
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(of([
+        { request: TEST_PARAM, response: TEST_RESULT },
+      ]));
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1, dedupeWindowMS: 1000 });
+      for (let i = 0; i < 10; i++) {
+        batchingStore.getStore(TEST_PARAM, { force: true }).subscribe();
+      }
+      await of(undefined).pipe(delay(2)).toPromise();
+      batchingStore.getStore(TEST_PARAM, { force: true }).subscribe();
+      await of(undefined).pipe(delay(2)).toPromise();
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("aborts the batch signal once every requester has unsubscribed", async () => {
+      let batchSignal: IRxAbortSignal;
+      mockBatchFetcher = (_, signal) => {
+        batchSignal = signal;
+        return new Subject();
+      };
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1, cancelUnobservedFetches: true });
+      const sub1 = batchingStore.getStore(TEST_PARAM).subscribe();
+      const sub2 = batchingStore.getStore(TEST_PARAM2).subscribe();
+      await of(undefined).pipe(delay(2)).toPromise();
+
+      sub1.unsubscribe();
+      expect(batchSignal.aborted).toBe(false);
+      sub2.unsubscribe();
+      expect(batchSignal.aborted).toBe(true);
+    });
+
+    it("leaves requests that were cancelled before the buffer flushed out of the batch", async () => {
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(of([]));
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1 });
+      batchingStore.getStore(TEST_PARAM).subscribe();
+      batchingStore.getStore(TEST_PARAM2).subscribe();
+      batchingStore.cancel(TEST_PARAM2);
+      await of(undefined).pipe(delay(2)).toPromise();
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(1);
+      expect(mockBatchFetcher).toHaveBeenCalledWith([{ request: TEST_PARAM }], jasmine.anything());
+    });
+  });
+  describe("prefetch", () => {
+    it("sends the prefetched params as one batch", async () => {
+      mockBatchFetcher = jasmine.createSpy("mockBatchFetcher").and.returnValue(of([
+        { request: TEST_PARAM, response: TEST_RESULT },
+        { request: TEST_PARAM2, response: TEST_RESULT2 },
+      ]));
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1 });
+      await batchingStore.prefetch([TEST_PARAM, TEST_PARAM2]);
+      expect(mockBatchFetcher).toHaveBeenCalledTimes(1);
+      expect(mockBatchFetcher).toHaveBeenCalledWith(
+        [{ request: TEST_PARAM }, { request: TEST_PARAM2 }],
+        jasmine.anything(),
+      );
+      expect(batchingStore.peek(TEST_PARAM2).value).toEqual(TEST_RESULT2);
+    });
+  });
+
+  describe("events$", () => {
+    it("emits batchFlushed with the keys in each batch", async () => {
+      mockBatchFetcher = () => of([]);
+      batchingStore = new TestStore(mockBatchFetcher, { bufferTimeMS: 1 });
+      const events = [];
+      batchingStore.events$.subscribe((event) => events.push(event));
+      batchingStore.getStore(TEST_PARAM).subscribe();
+      batchingStore.getStore(TEST_PARAM2).subscribe();
+      await of(undefined).pipe(delay(2)).toPromise();
+      expect(events.filter((event) => event.type === "batchFlushed")).toEqual([
+        jasmine.objectContaining({
+          bufferedMS: jasmine.any(Number),
+          keys: [TEST_PARAM, TEST_PARAM2],
+          params: [TEST_PARAM, TEST_PARAM2],
+        }),
+      ]);
+    });
+  });
 });
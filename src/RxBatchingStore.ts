@@ -1,8 +1,9 @@
-import { Dictionary, keyBy, uniqBy } from "lodash";
-import { Observable, of, Subject, throwError } from "rxjs";
-import { bufferTime, first, map, share, shareReplay, switchMap } from "rxjs/operators";
-import { nodeObjectSorter } from "./NodeObjectSorter";
-import { RxStore } from "./RxStore";
+import { chunk, Dictionary, groupBy, keyBy, uniqBy } from "lodash";
+import { from, Observable, of, Subject, Subscription, throwError } from "rxjs";
+import { bufferTime, finalize, first, flatMap, map, share, shareReplay, switchMap } from "rxjs/operators";
+import { abortable, IRxAbortSignal } from "./RxAbortController";
+import { applyMiddleware, getGlobalBatchMiddleware, TRxBatchMiddleware } from "./RxMiddleware";
+import { IRxStoreConfig, RxStore } from "./RxStore";
 
 export interface IRxBatchSingleResponse<TResponse, TRequest> {
   response: TResponse;
@@ -10,18 +11,37 @@ export interface IRxBatchSingleResponse<TResponse, TRequest> {
   error?: Error;
 }
 
-interface IRequestWithExtra<TRequest, Extra> {
+export interface IRequestWithExtra<TRequest, Extra> {
   request: TRequest;
   extra?: Extra;
 }
 
 interface IBatchEvent<TResponse, TRequest> {
+  partition: string;
   requestHashes: Set<string>;
   responsesOb: Observable<Dictionary<IRxBatchSingleResponse<TResponse, TRequest>>>;
 }
 
+export interface IRxBatchingStoreConfig<TResponse, TRequest, Extra = void, TError = string>
+  extends IRxStoreConfig<TResponse, TRequest, Extra, TError> {
+  // How long requests are buffered before being sent as a batch, defaults to 100
+  bufferTimeMS?: number;
+  // Flushes the buffer as soon as it holds this many requests, and splits larger batches into chunks of this size
+  maxBatchSize?: number;
+  // Caps how many calls to the `batchFetchingFunction` can be in flight at once, further chunks wait for a slot.
+  // N.B a call is in flight until the observable it returns completes
+  maxConcurrentBatches?: number;
+  // Splits every buffered window into separate batches per key, i.e for requests with different auth scopes or
+  // locales in their `extra`. The key is also part of the cache key so each partition is cached separately.
+  batchKey?: (request: TRequest, extra?: Extra) => string;
+  // Runs around every call to the `batchFetchingFunction`, while `middleware` runs around the fetch of each request
+  batchMiddleware?: TRxBatchMiddleware<TResponse, TRequest, Extra>[];
+}
+
+// `signal` is aborted once every request in the batch has been cancelled (or unsubscribed from)
 export type RxBatchFetchingFunction<TResponse, TRequest, Extra = void> = (
   req: IRequestWithExtra<TRequest, Extra>[],
+  signal?: IRxAbortSignal,
 ) => Observable<IRxBatchSingleResponse<TResponse, TRequest>[]>;
 
 // Some of the code in this file is borrowed from the user Marc https://stackoverflow.com/a/57401289
@@ -32,28 +52,57 @@ export class RxBatchingStore<TResponse, TRequest, Extra = void, TError = string>
   TError
   > {
   private requestSubject = new Subject<IRequestWithExtra<TRequest, Extra>>();
+  // Requests whose requester went away before the buffer was flushed, they are left out of the batch
+  private cancelledRequests = new WeakSet<IRequestWithExtra<TRequest, Extra>>();
+  // When each request entered the buffer, reported as `bufferedMS` on `batchFlushed` events
+  private requestedAt = new WeakMap<IRequestWithExtra<TRequest, Extra>, number>();
 
   private requests: Observable<IBatchEvent<TResponse, TRequest>> = this.requestSubject.asObservable().pipe(
-    bufferTime(this.bufferTimeMS),
-    map((requests) => this.fetchBatch(requests)),
+    bufferTime(
+      this.config.bufferTimeMS === undefined ? 100 : this.config.bufferTimeMS,
+      null,
+      this.config.maxBatchSize || Number.POSITIVE_INFINITY,
+      this.getScheduler(),
+    ),
+    flatMap((requests) => from(this.fetchBatch(requests))),
     share(),
   );
 
+  private activeBatchCount = 0;
+  private queuedBatches: (() => void)[] = [];
+
   constructor(
     private readonly batchFetchingFunction: RxBatchFetchingFunction<TResponse, TRequest, Extra>,
     errorParserLogger: (err: Error) => TError,
-    private readonly bufferTimeMS = 100,
+    protected readonly config: IRxBatchingStoreConfig<TResponse, TRequest, Extra, TError> = {},
   ) {
-    super((req, extra) => this.fetch(req, extra), errorParserLogger);
+    // Each request is fetched (and so retried) individually by RxStore, a failed item is re-requested in a later
+    // batch on its own rather than the whole batch being refetched
+    super((req, extra) => this.fetch(req, extra), errorParserLogger, config);
+  }
+
+  protected getPartition(request: TRequest, extra?: Extra): string {
+    return this.config.batchKey ? this.config.batchKey(request, extra) : "";
+  }
+
+  protected getBatchMiddleware(): TRxBatchMiddleware<TResponse, TRequest, Extra>[] {
+    // Global batch middleware is written for stores of any type
+    const globalMiddleware = getGlobalBatchMiddleware() as TRxBatchMiddleware<TResponse, TRequest, Extra>[];
+    return [...globalMiddleware, ...(this.config.batchMiddleware || [])];
   }
 
   private fetch(request: TRequest, extra?: Extra): Observable<TResponse> {
     const observable = new Observable<IBatchEvent<TResponse, TRequest>>((observer) => {
+      const requestWithExtra = extra ? { request, extra } : { request };
+      this.requestedAt.set(requestWithExtra, this.now());
       this.requests.subscribe(observer);
       // Emit *after* the subscription
-      this.requestSubject.next(extra ? { request, extra } : { request });
+      this.requestSubject.next(requestWithExtra);
+      return () => this.cancelledRequests.add(requestWithExtra);
     });
-    const requestHash = nodeObjectSorter(request);
+    // Requests and responses are matched up using the same hash as the cache keys
+    const requestHash = this.hashParams(request);
+    const partition = this.getPartition(request, extra);
     return observable.pipe(
       // This could be `filter` - this would then alert any downstream observables
       // That included this `request` in any future batches
@@ -61,7 +110,7 @@ export class RxBatchingStore<TResponse, TRequest, Extra = void, TError = string>
       // the observable store in rxStore would be switched to listen to the new batch anyway
       // If the `batchFetchingFunction` returns a stream, this `first` does not prevent
       // downstream from receiving new values emitted on the stream that's returned by `batchFetchingFunction`
-      first((batchEvent) => batchEvent.requestHashes.has(requestHash)),
+      first((batchEvent) => batchEvent.partition === partition && batchEvent.requestHashes.has(requestHash)),
       switchMap((batchEvent) => batchEvent.responsesOb),
       map((responsesDictionary) => responsesDictionary[requestHash]),
       switchMap((v) => {
@@ -78,13 +127,85 @@ export class RxBatchingStore<TResponse, TRequest, Extra = void, TError = string>
     );
   }
 
-  private fetchBatch(reqs: IRequestWithExtra<TRequest, Extra>[]): IBatchEvent<TResponse, TRequest> {
-    const uniqRequests = uniqBy(reqs, (req) => nodeObjectSorter(req.request));
-    const responsesOb = this.batchFetchingFunction(uniqRequests).pipe(
-      map((results) => keyBy(results, (result) => nodeObjectSorter(result.request))),
-      // tslint:disable-next-line:all
-      shareReplay({ refCount: true, bufferSize: 1 })
+  // Produces one batch event per `batchKey` partition and `maxBatchSize` chunk, each request is resolved from the
+  // chunk it ended up in
+  private fetchBatch(reqs: IRequestWithExtra<TRequest, Extra>[]): IBatchEvent<TResponse, TRequest>[] {
+    const liveRequests = reqs.filter((req) => !this.cancelledRequests.has(req));
+    const partitions = groupBy(liveRequests, (req) => this.getPartition(req.request, req.extra));
+    return Object.keys(partitions).reduce(
+      (batchEvents, partition) => batchEvents.concat(this.fetchPartition(partition, partitions[partition])),
+      [] as IBatchEvent<TResponse, TRequest>[],
     );
-    return { requestHashes: new Set(reqs.map((req) => nodeObjectSorter(req.request))), responsesOb };
+  }
+
+  private fetchPartition(
+    partition: string,
+    reqs: IRequestWithExtra<TRequest, Extra>[],
+  ): IBatchEvent<TResponse, TRequest>[] {
+    const uniqRequests = uniqBy(reqs, (req) => this.hashParams(req.request));
+    const chunks = this.config.maxBatchSize ? chunk(uniqRequests, this.config.maxBatchSize) : [uniqRequests];
+    return chunks.map((chunkRequests) => {
+      const responsesOb = this.limitConcurrency(
+        abortable((signal) => {
+          this.emitBatchFlushed(chunkRequests);
+          return applyMiddleware(
+            this.getBatchMiddleware(),
+            (requests) => this.batchFetchingFunction(requests, signal),
+          )(chunkRequests);
+        }),
+      ).pipe(
+        map((results) => keyBy(results, (result) => this.hashParams(result.request))),
+        // tslint:disable-next-line:all
+        shareReplay({ refCount: true, bufferSize: 1 })
+      );
+      const requestHashes = new Set(chunkRequests.map((req) => this.hashParams(req.request)));
+      return { partition, requestHashes, responsesOb };
+    });
+  }
+
+  private emitBatchFlushed(reqs: IRequestWithExtra<TRequest, Extra>[]): void {
+    const timestamp = this.now();
+    const oldestRequestedAt = Math.min(...reqs.map((req) => this.requestedAt.get(req)));
+    this.emitEvent({
+      bufferedMS: timestamp - oldestRequestedAt,
+      keys: reqs.map((req) => this.getKey(req.request, req.extra)),
+      params: reqs.map((req) => req.request),
+      timestamp,
+      type: "batchFlushed",
+    });
+  }
+
+  // Defers subscribing to `batch` until fewer than `maxConcurrentBatches` are in flight
+  private limitConcurrency<R>(batch: Observable<R>): Observable<R> {
+    const { maxConcurrentBatches } = this.config;
+    if (!maxConcurrentBatches) {
+      return batch;
+    }
+    return new Observable<R>((subscriber) => {
+      let subscription: Subscription | undefined;
+      const start = () => {
+        this.activeBatchCount++;
+        subscription = batch.pipe(
+          finalize(() => {
+            this.activeBatchCount--;
+            const next = this.queuedBatches.shift();
+            if (next) {
+              next();
+            }
+          }),
+        ).subscribe(subscriber);
+      };
+      if (this.activeBatchCount < maxConcurrentBatches) {
+        start();
+      } else {
+        this.queuedBatches.push(start);
+      }
+      return () => {
+        this.queuedBatches = this.queuedBatches.filter((queued) => queued !== start);
+        if (subscription) {
+          subscription.unsubscribe();
+        }
+      };
+    });
   }
 }
@@ -0,0 +1,78 @@
+import { RxBroadcastChannelSyncTransport } from "./RxBroadcastChannelSyncTransport";
+import { IRxSyncMessage } from "./RxSyncTransport";
+
+// Delivers to every other open channel with the same name, like the DOM BroadcastChannel
+class FakeBroadcastChannel {
+  public static channels: FakeBroadcastChannel[] = [];
+  private listeners: ((event: { data: unknown }) => void)[] = [];
+
+  constructor(private readonly name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  public postMessage(data: unknown): void {
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) => channel.listeners.forEach((listener) => listener({ data })));
+  }
+
+  public addEventListener(_: "message", listener: (event: { data: unknown }) => void): void {
+    this.listeners.push(listener);
+  }
+
+  public removeEventListener(_: "message", listener: (event: { data: unknown }) => void): void {
+    this.listeners = this.listeners.filter((existing) => existing !== listener);
+  }
+
+  public close(): void {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter((channel) => channel !== this);
+  }
+}
+
+describe("RxBroadcastChannelSyncTransport", () => {
+  const message: IRxSyncMessage = {
+    key: "key",
+    params: "key",
+    senderId: "sender",
+    storeName: "store",
+    type: "expire",
+    version: 1,
+  };
+
+  beforeEach(() => {
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterEach(() => {
+    delete (global as any).BroadcastChannel;
+    FakeBroadcastChannel.channels = [];
+  });
+
+  it("delivers messages to transports on the same channel", () => {
+    const sender = new RxBroadcastChannelSyncTransport();
+    const receiver = new RxBroadcastChannelSyncTransport();
+    const otherChannel = new RxBroadcastChannelSyncTransport("other");
+    const received = jasmine.createSpy("received");
+    const receivedOnOtherChannel = jasmine.createSpy("receivedOnOtherChannel");
+    receiver.subscribe(received);
+    otherChannel.subscribe(receivedOnOtherChannel);
+
+    sender.postMessage(message);
+    expect(received).toHaveBeenCalledWith(message);
+    expect(receivedOnOtherChannel).not.toHaveBeenCalled();
+  });
+
+  it("stops delivering once unsubscribed or closed", () => {
+    const sender = new RxBroadcastChannelSyncTransport();
+    const receiver = new RxBroadcastChannelSyncTransport();
+    const received = jasmine.createSpy("received");
+    const unsubscribe = receiver.subscribe(received);
+    unsubscribe();
+    sender.postMessage(message);
+
+    receiver.subscribe(received);
+    receiver.close();
+    sender.postMessage(message);
+    expect(received).not.toHaveBeenCalled();
+  });
+});
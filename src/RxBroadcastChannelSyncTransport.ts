@@ -0,0 +1,34 @@
+import { IRxSyncMessage, IRxSyncTransport } from "./RxSyncTransport";
+
+interface IBroadcastChannel {
+  postMessage(message: unknown): void;
+  addEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+  removeEventListener(type: "message", listener: (event: { data: unknown }) => void): void;
+  close(): void;
+}
+
+declare const BroadcastChannel: new (name: string) => IBroadcastChannel;
+
+// Syncs stores across browser tabs (and Node worker threads) through a BroadcastChannel. Values and params have to
+// be structured cloneable.
+export class RxBroadcastChannelSyncTransport implements IRxSyncTransport {
+  private readonly channel: IBroadcastChannel;
+
+  constructor(channelName = "rxjstore") {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  public postMessage(message: IRxSyncMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(listener: (message: IRxSyncMessage) => void): () => void {
+    const onMessage = (event: { data: unknown }) => listener(event.data as IRxSyncMessage);
+    this.channel.addEventListener("message", onMessage);
+    return () => this.channel.removeEventListener("message", onMessage);
+  }
+
+  public close(): void {
+    this.channel.close();
+  }
+}
@@ -0,0 +1,115 @@
+import { of, Subject, throwError } from "rxjs";
+import { delay, take, toArray } from "rxjs/operators";
+import { TestScheduler } from "rxjs/testing";
+import { RxDerivedStore } from "./RxDerivedStore";
+import { RxStore } from "./RxStore";
+import { storeFilterOutLoading } from "./RxStoreUtil";
+
+interface IProduct {
+  productId: string;
+  manufacturerId: string;
+}
+
+interface IManufacturer {
+  manufacturerId: string;
+  name: string;
+}
+
+describe("RxDerivedStore", () => {
+  const PRODUCT_ID = "PRODUCT";
+  const PRODUCT = { productId: PRODUCT_ID, manufacturerId: "M1" };
+  const toManufacturer = (manufacturerId: string) => ({ manufacturerId, name: `Name of ${manufacturerId}` });
+
+  let productFetcher: jasmine.Spy;
+  let manufacturerFetcher: jasmine.Spy;
+  let productStore: RxStore<IProduct, string, void, string>;
+  let derivedStore: RxDerivedStore<IManufacturer, string, [IProduct], string>;
+
+  beforeEach(() => {
+    productFetcher = jasmine.createSpy("productFetcher").and.returnValue(of(PRODUCT));
+    manufacturerFetcher = jasmine.createSpy("manufacturerFetcher").and.callFake(
+      ([product]: [IProduct]) => of(toManufacturer(product.manufacturerId)),
+    );
+    productStore = new RxStore(productFetcher, (err) => err.message);
+    derivedStore = new RxDerivedStore<IManufacturer, string, [IProduct], string>(
+      [productStore],
+      manufacturerFetcher,
+      (err) => err.message,
+    );
+  });
+
+  it("fetches with the values of its sources", async () => {
+    const emittedValue = await derivedStore.getStore(PRODUCT_ID).pipe(take(1)).toPromise();
+    expect(emittedValue.value).toEqual(toManufacturer("M1"));
+    expect(manufacturerFetcher).toHaveBeenCalledWith([PRODUCT], PRODUCT_ID);
+  });
+
+  it("caches derived values", () => {
+    derivedStore.getStore(PRODUCT_ID).subscribe();
+    derivedStore.getStore(PRODUCT_ID).subscribe();
+    expect(manufacturerFetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns the same observable for a key until its entry is deleted", () => {
+    const scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    derivedStore = new RxDerivedStore<IManufacturer, string, [IProduct], string>(
+      [productStore],
+      manufacturerFetcher,
+      (err) => err.message,
+      { deleteFromCacheTimeMS: 100, scheduler },
+    );
+    const derived = derivedStore.getStore(PRODUCT_ID);
+    expect(derivedStore.getStore(PRODUCT_ID)).toBe(derived);
+
+    derived.subscribe().unsubscribe();
+    scheduler.flush();
+    expect(derivedStore.keys()).toEqual([]);
+    expect(derivedStore.getStore(PRODUCT_ID)).not.toBe(derived);
+  });
+
+  it("is loading while a source is loading", async () => {
+    productFetcher.and.returnValue(of(PRODUCT).pipe(delay(10)));
+    const emittedValues = await derivedStore.getStore(PRODUCT_ID).pipe(take(2), toArray()).toPromise();
+    expect(emittedValues.map((store) => store.loading)).toEqual([true, false]);
+    expect(emittedValues[1].value).toEqual(toManufacturer("M1"));
+  });
+
+  it("refetches when a source value changes", async () => {
+    const emittedValues = [];
+    derivedStore.getStore(PRODUCT_ID).pipe(storeFilterOutLoading).subscribe((store) => emittedValues.push(store.value));
+    productStore.updateStoreValue(PRODUCT_ID, { ...PRODUCT, manufacturerId: "M2" });
+    expect(manufacturerFetcher).toHaveBeenCalledTimes(2);
+    expect(emittedValues).toEqual([toManufacturer("M1"), toManufacturer("M2")]);
+  });
+
+  it("does not refetch when a source emits an equal value", () => {
+    derivedStore.getStore(PRODUCT_ID).subscribe();
+    productStore.updateStoreValue(PRODUCT_ID, { ...PRODUCT });
+    expect(manufacturerFetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("surfaces source errors", async () => {
+    productFetcher.and.returnValue(throwError(new Error("Product error")));
+    const emittedValue = await derivedStore.getStore(PRODUCT_ID).pipe(take(1)).toPromise();
+    expect(emittedValue).toEqual(jasmine.objectContaining({ loading: false, error: "Product error" }));
+    expect(manufacturerFetcher).not.toHaveBeenCalled();
+  });
+
+  it("surfaces its own errors", async () => {
+    manufacturerFetcher.and.returnValue(throwError(new Error("Manufacturer error")));
+    const emittedValue = await derivedStore.getStore(PRODUCT_ID).pipe(take(1)).toPromise();
+    expect(emittedValue).toEqual(jasmine.objectContaining({ loading: false, error: "Manufacturer error" }));
+  });
+
+  it("accepts observables and functions as sources", async () => {
+    const region = new Subject<{ loading: boolean, value: string, hasValue: boolean, isStale: boolean }>();
+    const store = new RxDerivedStore<string, string, [IProduct, string], string>(
+      [(productId) => productStore.getStore(productId), region],
+      ([product, regionName]) => of(`${product.manufacturerId}:${regionName}`),
+      (err) => err.message,
+    );
+    const emittedValue = store.getStore(PRODUCT_ID).pipe(storeFilterOutLoading, take(1)).toPromise();
+    region.next({ loading: false, value: "EU", hasValue: true, isStale: false });
+    expect((await emittedValue).value).toEqual("M1:EU");
+  });
+});
@@ -0,0 +1,137 @@
+import { combineLatest, Observable } from "rxjs";
+import { distinctUntilChanged, filter, first, map, switchMap, tap } from "rxjs/operators";
+import { nodeObjectSorter } from "./NodeObjectSorter";
+import { IRxStore, IRxStoreConfig, IRxStoreOptions, RxStore } from "./RxStore";
+import { IRxStoreEvictEvent } from "./RxStoreEvents";
+
+// A source is either another store (queried with the derived store's params), a fixed store observable or a
+// function that maps the derived store's params to a store observable
+export type TRxDerivedSource<S, Params, TError> =
+  | RxStore<S, Params, unknown, TError>
+  | Observable<IRxStore<S, TError>>
+  | ((params: Params) => Observable<IRxStore<S, TError>>);
+
+export type TRxDerivedSources<SourceValues extends unknown[], Params, TError> = {
+  [K in keyof SourceValues]: TRxDerivedSource<SourceValues[K], Params, TError>;
+};
+
+export type TRxDerivedFetcher<T, Params, SourceValues extends unknown[]> = (
+  values: SourceValues,
+  params: Params,
+) => Observable<T>;
+
+const shallowEqual = <O extends object>(a: O, b: O): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+// A store whose fetcher depends on the values of other stores.
+// The derived value is cached and expired exactly like an RxStore value, it is loading while any source is loading,
+// surfaces source errors as its own and is refetched whenever a source value changes.
+export class RxDerivedStore<T, Params, SourceValues extends unknown[], TError = Error> extends RxStore<
+  T,
+  Params,
+  void,
+  TError
+  > {
+  // The hash of the source values each key was last fetched with
+  private sourceHashes: { [key: string]: string } = {};
+  // Like `RxStore`, `getStore` returns the same observable for a key until its entry is deleted
+  private derivedObservables: { [key: string]: Observable<IRxStore<T, TError>> } = {};
+
+  constructor(
+    private readonly sources: TRxDerivedSources<SourceValues, Params, TError>,
+    private readonly derivedFetcher: TRxDerivedFetcher<T, Params, SourceValues>,
+    errorParserLogger: (err: Error) => TError,
+    config: IRxStoreConfig<T, Params, void, TError> = {},
+  ) {
+    super((params) => this.fetchDerived(params), errorParserLogger, config);
+    // Entries deleted after `deleteFromCacheTimeMS` or evicted by the cache limits
+    this.events$.pipe(
+      filter((event): event is IRxStoreEvictEvent<Params> => event.type === "evict"),
+    ).subscribe(({ key }) => {
+      delete this.sourceHashes[key];
+      delete this.derivedObservables[key];
+    });
+  }
+
+  protected _getStore(
+    params: Params,
+    options: IRxStoreOptions<void> = { force: false },
+  ): Observable<IRxStore<T, TError>> {
+    const ownStore = super._getStore(params, options);
+    const key = this.getKey(params);
+    if (!this.derivedObservables[key]) {
+      this.derivedObservables[key] = this.deriveStore(params, ownStore);
+    }
+    return this.derivedObservables[key];
+  }
+
+  private deriveStore(params: Params, ownStore: Observable<IRxStore<T, TError>>): Observable<IRxStore<T, TError>> {
+    const key = this.getKey(params);
+    const sources = this.getSources(params).pipe(
+      // This has to happen before the sources are combined with our own store, expiring emits `loading: true`
+      // synchronously and it must not be overtaken by the source values that caused it
+      tap((sourceStores) => {
+        const store = this.store[key];
+        const lastHash = this.sourceHashes[key];
+        if (!store || store.fetching || lastHash === undefined || !this.isSettled(sourceStores)) {
+          return;
+        }
+        if (this.hashValues(sourceStores) !== lastHash) {
+          this.expireKey(key);
+        }
+      }),
+    );
+    return combineLatest([sources, ownStore]).pipe(
+      map(([sourceStores, store]) => {
+        const sourceError = sourceStores.map((sourceStore) => sourceStore.error).find(Boolean);
+        const sourceLoading = sourceStores.some((sourceStore) => sourceStore.loading);
+        const error = store.error || sourceError;
+        return {
+          ...store,
+          // A derived fetch waits on its sources, so it is not `loading` once one of them has failed
+          loading: sourceLoading || (store.loading && !sourceError),
+          ...(error ? { error } : undefined),
+        };
+      }),
+      // A source emitting while we are already loading (or the source change that we have just refetched for)
+      // would otherwise re-emit the same state
+      distinctUntilChanged(shallowEqual),
+    );
+  }
+
+  private fetchDerived(params: Params): Observable<T> {
+    return this.getSources(params).pipe(
+      first((sourceStores) => this.isSettled(sourceStores)),
+      switchMap((sourceStores) => {
+        this.sourceHashes[this.getKey(params)] = this.hashValues(sourceStores);
+        const values = sourceStores.map((sourceStore) => sourceStore.value) as SourceValues;
+        return this.derivedFetcher(values, params);
+      }),
+    );
+  }
+
+  private getSources(params: Params): Observable<IRxStore<unknown, TError>[]> {
+    const sources = this.sources as TRxDerivedSource<unknown, Params, TError>[];
+    return combineLatest(
+      sources.map((source) => {
+        if (source instanceof RxStore) {
+          return source.getStore(params);
+        }
+        if (source instanceof Observable) {
+          return source;
+        }
+        return source(params);
+      }),
+    );
+  }
+
+  private isSettled(sourceStores: IRxStore<unknown, TError>[]): boolean {
+    return sourceStores.every((sourceStore) => !sourceStore.loading && !sourceStore.error);
+  }
+
+  private hashValues(sourceStores: IRxStore<unknown, TError>[]): string {
+    return nodeObjectSorter(sourceStores.map((sourceStore) => sourceStore.value));
+  }
+}
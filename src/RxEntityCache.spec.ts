@@ -0,0 +1,82 @@
+import { of } from "rxjs";
+import { RxBatchFetchingFunction, RxBatchingStore } from "./RxBatchingStore";
+import { RxEntityCache } from "./RxEntityCache";
+import { RxMemoryStorageAdapter } from "./RxStorageAdapter";
+import { IRxStoreEntityConfig, RxStore } from "./RxStore";
+
+interface IProduct {
+  id: string;
+  name: string;
+}
+
+describe("RxEntityCache", () => {
+  let cache: RxEntityCache;
+  let entity: IRxStoreEntityConfig<IProduct>;
+  let productStore: RxStore<IProduct, string>;
+  let categoryStore: RxBatchingStore<IProduct[], string, void, Error>;
+
+  beforeEach(() => {
+    cache = new RxEntityCache();
+    entity = { cache, getId: (product) => product.id, type: "product" };
+    productStore = new RxStore((id: string) => of({ id, name: `Fetched ${id}` }), (err) => err, { entity });
+    const fetchCategories: RxBatchFetchingFunction<IProduct[], string> = (requests) => of(
+      requests.map(({ request }) => ({ request, response: [{ id: "1", name: "One" }, { id: "2", name: "Two" }] })),
+    );
+    categoryStore = new RxBatchingStore(fetchCategories, (err) => err, { bufferTimeMS: 1, entity });
+  });
+
+  it("updates every entry that contains an entity when it is updated through any store", async () => {
+    await categoryStore.prefetch("toys");
+    const categoryStates = [];
+    categoryStore.getStore("toys").subscribe((state) => categoryStates.push(state.value));
+
+    productStore.updateStoreValue("1", { id: "1", name: "Updated" });
+    expect(categoryStates).toEqual([
+      [{ id: "1", name: "One" }, { id: "2", name: "Two" }],
+      [{ id: "1", name: "Updated" }, { id: "2", name: "Two" }],
+    ]);
+    expect(categoryStore.peek("toys").value[1]).toBe(categoryStates[0][1]);
+  });
+
+  it("updates entries when another store fetches the entity", async () => {
+    productStore.updateStoreValue("2", { id: "2", name: "Local" });
+    const productValues = [];
+    productStore.getStore("2").subscribe((state) => productValues.push(state.value));
+
+    await categoryStore.prefetch("toys");
+    expect(productValues).toEqual([{ id: "2", name: "Local" }, { id: "2", name: "Two" }]);
+  });
+
+  it("updates getStores results", () => {
+    const values = [];
+    productStore.getStores(["1", "2"]).subscribe((stores) => values.push(stores.value));
+    productStore.updateStoreValue("2", { id: "2", name: "Updated" });
+    expect(values[values.length - 1]).toEqual([{ id: "1", name: "Fetched 1" }, { id: "2", name: "Updated" }]);
+  });
+
+  it("normalizes values hydrated from a persist adapter", () => {
+    const adapter = new RxMemoryStorageAdapter();
+    adapter.setItem("1", { fetchedAt: Date.now(), params: "1", value: { id: "1", name: "Persisted" } });
+    const persistedStore = new RxStore((id: string) => of({ id, name: `Fetched ${id}` }), (err) => err, {
+      entity,
+      paramHasher: (id) => id,
+      persist: { adapter },
+    });
+    const values = [];
+    persistedStore.getStore("1").subscribe((state) => values.push(state.value));
+    productStore.updateStoreValue("1", { id: "1", name: "Updated" });
+    expect(values).toEqual([{ id: "1", name: "Persisted" }, { id: "1", name: "Updated" }]);
+  });
+
+  it("drops entities once no entry references them", () => {
+    productStore.updateStoreValue("1", { id: "1", name: "One" });
+    expect(cache.get("product", "1")).toEqual({ id: "1", name: "One" });
+    productStore.removeStoreValue("1");
+    expect(cache.get("product", "1")).toBeUndefined();
+  });
+
+  it("ignores entities that nothing references", () => {
+    cache.put("product", "3", { id: "3", name: "Three" });
+    expect(cache.get("product", "3")).toBeUndefined();
+  });
+});
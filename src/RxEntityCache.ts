@@ -0,0 +1,67 @@
+import { Observable, Subject } from "rxjs";
+import { filter, map, startWith } from "rxjs/operators";
+
+export interface IRxEntityChange {
+  type: string;
+  id: string;
+}
+
+interface IRxEntityRecord {
+  entity?: unknown;
+  // How many store entries reference the entity, it is dropped when none do
+  refCount: number;
+}
+
+// Holds one copy of every entity referenced by the stores that share it (see `entity` in `IRxStoreConfig`) so that
+// updating an entity through one store updates every entry, in every store, that contains it
+export class RxEntityCache {
+  private entities: { [type: string]: { [id: string]: IRxEntityRecord } } = {};
+  private changeSubject = new Subject<IRxEntityChange>();
+
+  public get<E>(type: string, id: string): E | undefined {
+    const record = this.getRecords(type)[id];
+    return record && (record.entity as E);
+  }
+
+  // Replaces the entity and notifies every entry that references it, entities that nothing references are ignored
+  public put<E>(type: string, id: string, entity: E): void {
+    const record = this.getRecords(type)[id];
+    if (!record || record.entity === entity) {
+      return;
+    }
+    record.entity = entity;
+    this.changeSubject.next({ id, type });
+  }
+
+  public retain(type: string, ids: string[]): void {
+    const records = this.getRecords(type);
+    ids.forEach((id) => {
+      records[id] = records[id] || { refCount: 0 };
+      records[id].refCount++;
+    });
+  }
+
+  public release(type: string, ids: string[]): void {
+    const records = this.getRecords(type);
+    ids.forEach((id) => {
+      if (records[id] && --records[id].refCount <= 0) {
+        delete records[id];
+      }
+    });
+  }
+
+  // Emits straight away and then whenever any of the entities is replaced
+  public watch(type: string, ids: string[]): Observable<void> {
+    const watched = new Set(ids);
+    return this.changeSubject.pipe(
+      filter((change) => change.type === type && watched.has(change.id)),
+      map(() => undefined),
+      startWith(undefined),
+    );
+  }
+
+  private getRecords(type: string): { [id: string]: IRxEntityRecord } {
+    this.entities[type] = this.entities[type] || {};
+    return this.entities[type];
+  }
+}
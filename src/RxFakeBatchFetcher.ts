@@ -0,0 +1,72 @@
+import { Observable, Subject } from "rxjs";
+import { nodeObjectSorter } from "./NodeObjectSorter";
+import { IRxAbortSignal } from "./RxAbortController";
+import { IRequestWithExtra, IRxBatchSingleResponse } from "./RxBatchingStore";
+import { TParamHasher } from "./RxStore";
+
+interface IPendingBatch<TResponse, TRequest, Extra> {
+  requests: IRequestWithExtra<TRequest, Extra>[];
+  responses: { [key: string]: IRxBatchSingleResponse<TResponse, TRequest> };
+  response: Subject<IRxBatchSingleResponse<TResponse, TRequest>[]>;
+}
+
+// A batch fetching function for tests. Items are resolved or rejected one at a time, each batch responds once every
+// one of its items has been settled.
+export class RxFakeBatchFetcher<TResponse, TRequest, Extra = void> {
+  public readonly calls: IRequestWithExtra<TRequest, Extra>[][] = [];
+  public readonly signals: IRxAbortSignal[] = [];
+
+  // Pass this to the store
+  public readonly fetch = (
+    requests: IRequestWithExtra<TRequest, Extra>[],
+    signal?: IRxAbortSignal,
+  ): Observable<IRxBatchSingleResponse<TResponse, TRequest>[]> => {
+    this.calls.push(requests);
+    this.signals.push(signal);
+    const batch = { requests, response: new Subject<IRxBatchSingleResponse<TResponse, TRequest>[]>(), responses: {} };
+    this.pending.push(batch);
+    return batch.response.asObservable();
+  }
+
+  private pending: IPendingBatch<TResponse, TRequest, Extra>[] = [];
+
+  constructor(private readonly paramHasher: TParamHasher<TRequest> = nodeObjectSorter) { }
+
+  // Resolves `request` in every pending batch that contains it
+  public resolve(request: TRequest, response: TResponse): void {
+    this.settle({ request, response });
+  }
+
+  public reject(request: TRequest, error: Error): void {
+    this.settle({ error, request, response: undefined });
+  }
+
+  // Errors every pending batch as a whole, i.e a network failure
+  public rejectAll(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((batch) => batch.response.error(error));
+  }
+
+  public isPending(request: TRequest): boolean {
+    const key = this.paramHasher(request);
+    return this.pending.some((batch) => batch.requests.some((req) => this.paramHasher(req.request) === key));
+  }
+
+  private settle(result: IRxBatchSingleResponse<TResponse, TRequest>): void {
+    const key = this.paramHasher(result.request);
+    this.pending.forEach((batch) => {
+      if (batch.requests.some((req) => this.paramHasher(req.request) === key)) {
+        batch.responses[key] = result;
+      }
+    });
+    const isComplete = (batch: IPendingBatch<TResponse, TRequest, Extra>) =>
+      batch.requests.every((req) => !!batch.responses[this.paramHasher(req.request)]);
+    const completed = this.pending.filter(isComplete);
+    this.pending = this.pending.filter((batch) => !isComplete(batch));
+    completed.forEach((batch) => {
+      batch.response.next(batch.requests.map((req) => batch.responses[this.paramHasher(req.request)]));
+      batch.response.complete();
+    });
+  }
+}
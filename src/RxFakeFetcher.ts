@@ -0,0 +1,58 @@
+import { Observable, Subject } from "rxjs";
+import { nodeObjectSorter } from "./NodeObjectSorter";
+import { IRxAbortSignal } from "./RxAbortController";
+import { TParamHasher } from "./RxStore";
+
+export interface IRxFakeFetcherCall<Params, Extra> {
+  params: Params;
+  extra?: Extra;
+  signal?: IRxAbortSignal;
+}
+
+// A fetcher for tests, every call stays pending until it is resolved or rejected by params
+export class RxFakeFetcher<T, Params, Extra = void> {
+  public readonly calls: IRxFakeFetcherCall<Params, Extra>[] = [];
+  // Pass this to the store
+  public readonly fetch = (params: Params, extra?: Extra, signal?: IRxAbortSignal): Observable<T> => {
+    this.calls.push({ extra, params, signal });
+    const response = new Subject<T>();
+    const key = this.paramHasher(params);
+    this.pending[key] = (this.pending[key] || []).concat(response);
+    return response.asObservable();
+  }
+
+  private pending: { [key: string]: Subject<T>[] } = {};
+
+  constructor(private readonly paramHasher: TParamHasher<Params> = nodeObjectSorter) { }
+
+  // Resolves every pending call for `params`
+  public resolve(params: Params, value: T): void {
+    this.settle(params, (response) => {
+      response.next(value);
+      response.complete();
+    });
+  }
+
+  public reject(params: Params, error: Error): void {
+    this.settle(params, (response) => response.error(error));
+  }
+
+  public isPending(params: Params): boolean {
+    return !!this.pending[this.paramHasher(params)];
+  }
+
+  public callCount(params?: Params): number {
+    if (params === undefined) {
+      return this.calls.length;
+    }
+    const key = this.paramHasher(params);
+    return this.calls.filter((call) => this.paramHasher(call.params) === key).length;
+  }
+
+  private settle(params: Params, settle: (response: Subject<T>) => void): void {
+    const key = this.paramHasher(params);
+    const responses = this.pending[key] || [];
+    delete this.pending[key];
+    responses.forEach(settle);
+  }
+}
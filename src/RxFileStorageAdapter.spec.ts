@@ -0,0 +1,37 @@
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RxFileStorageAdapter } from "./RxFileStorageAdapter";
+
+describe("RxFileStorageAdapter", () => {
+  let filePath: string;
+
+  beforeEach(() => {
+    filePath = join(mkdtempSync(join(tmpdir(), "rxjstore-")), "cache.json");
+  });
+
+  it("writes items to the file", () => {
+    const adapter = new RxFileStorageAdapter(filePath);
+    adapter.setItem("key", { value: 1 });
+    expect(JSON.parse(readFileSync(filePath, "utf8"))).toEqual({ key: { value: 1 } });
+  });
+
+  it("reads items written by a previous instance", () => {
+    new RxFileStorageAdapter(filePath).setItem("key", { value: 1 });
+    expect(new RxFileStorageAdapter(filePath).getItem("key")).toEqual({ value: 1 });
+  });
+
+  it("removes items", () => {
+    const adapter = new RxFileStorageAdapter(filePath);
+    adapter.setItem("key", { value: 1 });
+    adapter.removeItem("key");
+    expect(new RxFileStorageAdapter(filePath).getItem("key")).toBeUndefined();
+  });
+
+  it("treats a missing or corrupt file as empty", () => {
+    expect(existsSync(filePath)).toBe(false);
+    expect(new RxFileStorageAdapter(filePath).getItem("key")).toBeUndefined();
+    writeFileSync(filePath, "{ not json");
+    expect(new RxFileStorageAdapter(filePath).getItem("key")).toBeUndefined();
+  });
+});
@@ -0,0 +1,43 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { IRxStorageAdapter } from "./RxStorageAdapter";
+
+// Keeps every item in a single JSON file. The file is read once, on first access, and rewritten on every change
+// so it's best suited to scripts, dev servers and small caches.
+export class RxFileStorageAdapter implements IRxStorageAdapter {
+  private items?: { [key: string]: unknown };
+
+  constructor(private readonly filePath: string) { }
+
+  public getItem<V>(key: string): V | undefined {
+    return this.read()[key] as V | undefined;
+  }
+
+  public setItem<V>(key: string, value: V): void {
+    this.read()[key] = value;
+    this.write();
+  }
+
+  public removeItem(key: string): void {
+    const items = this.read();
+    if (key in items) {
+      delete items[key];
+      this.write();
+    }
+  }
+
+  private read(): { [key: string]: unknown } {
+    if (!this.items) {
+      try {
+        this.items = existsSync(this.filePath) ? JSON.parse(readFileSync(this.filePath, "utf8")) : {};
+      } catch {
+        // A corrupt cache file is treated the same as an empty one
+        this.items = {};
+      }
+    }
+    return this.items;
+  }
+
+  private write(): void {
+    writeFileSync(this.filePath, JSON.stringify(this.items));
+  }
+}
@@ -0,0 +1,103 @@
+import { of } from "rxjs";
+import { map, tap } from "rxjs/operators";
+import { RxBatchFetchingFunction, RxBatchingStore } from "./RxBatchingStore";
+import { addGlobalBatchMiddleware, addGlobalMiddleware, TRxBatchMiddleware, TRxMiddleware } from "./RxMiddleware";
+import { RxStore, TFetcherWithAnExtra } from "./RxStore";
+
+interface ITestObj {
+  test: string;
+}
+
+describe("RxMiddleware", () => {
+  let fetcher: TFetcherWithAnExtra<ITestObj, string, string>;
+  let batchFetcher: RxBatchFetchingFunction<ITestObj, string, string>;
+  let calls: string[];
+  let removeGlobalMiddleware: (() => void)[];
+
+  const logging = <T, Params, Extra>(name: string): TRxMiddleware<T, Params, Extra> => (params, extra, next) => {
+    calls.push(`${name} ${JSON.stringify(params)}`);
+    return next(params, extra).pipe(tap(() => calls.push(`${name} done`)));
+  };
+
+  beforeEach(() => {
+    calls = [];
+    removeGlobalMiddleware = [];
+    fetcher = jasmine.createSpy().and.callFake((param: string, extra: string) => of({ test: `${param} ${extra}` }));
+    batchFetcher = jasmine.createSpy().and.callFake((requests) => of(
+      requests.map(({ request, extra }) => ({ request, response: { test: `${request} ${extra}` } })),
+    ));
+  });
+
+  afterEach(() => {
+    removeGlobalMiddleware.forEach((remove) => remove());
+  });
+
+  it("runs the middleware around the fetcher in order", () => {
+    const withAuth: TRxMiddleware<ITestObj, string, string> = (params, extra, next) => next(params, "token");
+    const upperCase: TRxMiddleware<ITestObj, string, string> = (params, extra, next) =>
+      next(params, extra).pipe(map((value) => ({ test: value.test.toUpperCase() })));
+    const store = new RxStore(fetcher, (err) => err.message, {
+      middleware: [logging("outer"), upperCase, withAuth],
+    });
+    store.getStore("A").subscribe();
+    expect(fetcher).toHaveBeenCalledWith("A", "token", jasmine.anything());
+    expect(store.peek("A").value).toEqual({ test: "A TOKEN" });
+    expect(calls).toEqual(["outer \"A\"", "outer done"]);
+  });
+
+  it("passes validation failures through the errorParserLogger", () => {
+    const validate: TRxMiddleware<ITestObj, string, string> = (params, extra, next) => next(params, extra).pipe(
+      tap((value) => {
+        if (value.test.indexOf("undefined") !== -1) {
+          throw new Error("Invalid response");
+        }
+      }),
+    );
+    const throwsSynchronously: TRxMiddleware<ITestObj, string, string> = () => {
+      throw new Error("Not allowed");
+    };
+    const store = new RxStore(fetcher, (err) => `Parsed: ${err.message}`, { middleware: [validate] });
+    store.getStore("A").subscribe();
+    expect(store.peek("A").error).toEqual("Parsed: Invalid response");
+
+    const otherStore = new RxStore(fetcher, (err) => `Parsed: ${err.message}`, { middleware: [throwsSynchronously] });
+    otherStore.getStore("A").subscribe();
+    expect(otherStore.peek("A").error).toEqual("Parsed: Not allowed");
+  });
+
+  it("runs global middleware outside of the store's own until it is removed", () => {
+    removeGlobalMiddleware.push(addGlobalMiddleware(logging("global")));
+    const store = new RxStore(fetcher, (err) => err.message, { middleware: [logging("store")] });
+    store.getStore("A").subscribe();
+    expect(calls).toEqual(["global \"A\"", "store \"A\"", "store done", "global done"]);
+
+    removeGlobalMiddleware.pop()();
+    store.getStore("B").subscribe();
+    expect(calls.slice(4)).toEqual(["store \"B\"", "store done"]);
+  });
+
+  it("runs batch middleware around the whole batch and middleware, global or not, around each request", async () => {
+    removeGlobalMiddleware.push(addGlobalMiddleware(logging("global")));
+    removeGlobalMiddleware.push(addGlobalBatchMiddleware(logging("global batch")));
+    const withAuth: TRxBatchMiddleware<ITestObj, string, string> = (requests, extra, next) =>
+      next(requests.map(({ request }) => ({ extra: "token", request })));
+    const store = new RxBatchingStore(batchFetcher, (err) => err.message, {
+      batchMiddleware: [withAuth],
+      bufferTimeMS: 1,
+      middleware: [logging("item")],
+    });
+    await store.prefetch(["A", "B"]);
+    expect(batchFetcher).toHaveBeenCalledWith(
+      [{ extra: "token", request: "A" }, { extra: "token", request: "B" }],
+      jasmine.anything(),
+    );
+    expect(store.peek("A").value).toEqual({ test: "A token" });
+    expect(calls.filter((call) => call.indexOf("global batch") === 0)).toEqual([
+      "global batch [{\"request\":\"A\"},{\"request\":\"B\"}]",
+      "global batch done",
+    ]);
+    expect(calls.filter((call) => call.indexOf("global \"") === 0)).toEqual(["global \"A\"", "global \"B\""]);
+    expect(calls.filter((call) => call.indexOf("item \"") === 0)).toEqual(["item \"A\"", "item \"B\""]);
+    expect(calls.indexOf("global \"A\"")).toBeLessThan(calls.indexOf("item \"A\""));
+  });
+});
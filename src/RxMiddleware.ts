@@ -0,0 +1,59 @@
+import { defer, Observable } from "rxjs";
+import { IRequestWithExtra, IRxBatchSingleResponse } from "./RxBatchingStore";
+
+export type TRxMiddlewareNext<T, Params, Extra> = (params: Params, extra?: Extra) => Observable<T>;
+
+// Wraps a fetch, i.e to add auth to the `extra`, log or time it, or validate and transform its result. Anything
+// thrown or emitted as an error goes through the store's `errorParserLogger` like a fetcher error.
+export type TRxMiddleware<T, Params, Extra> = (
+  params: Params,
+  extra: Extra | undefined,
+  next: TRxMiddlewareNext<T, Params, Extra>,
+) => Observable<T>;
+
+// Wraps a call to a `batchFetchingFunction`, it sees the whole batch. The `extra` of each request is on the request.
+export type TRxBatchMiddleware<TResponse, TRequest, Extra> = TRxMiddleware<
+  IRxBatchSingleResponse<TResponse, TRequest>[],
+  IRequestWithExtra<TRequest, Extra>[],
+  void
+>;
+
+// Global middleware runs for stores of every type, so it can't rely on the types of values, params or extras
+export type TRxGlobalMiddleware = TRxMiddleware<unknown, unknown, unknown>;
+export type TRxGlobalBatchMiddleware = TRxBatchMiddleware<unknown, unknown, unknown>;
+
+const globalMiddleware: TRxGlobalMiddleware[] = [];
+const globalBatchMiddleware: TRxGlobalBatchMiddleware[] = [];
+
+const addTo = <M>(list: M[], middleware: M): (() => void) => {
+  list.push(middleware);
+  return () => {
+    const index = list.indexOf(middleware);
+    if (index !== -1) {
+      list.splice(index, 1);
+    }
+  };
+};
+
+// Runs `middleware` around every fetch of every store, outside of the store's own `middleware`. For batching stores
+// that is the fetch of each request. Returns a function that removes it.
+export const addGlobalMiddleware = (middleware: TRxGlobalMiddleware): (() => void) =>
+  addTo(globalMiddleware, middleware);
+
+// Runs `middleware` around every batch of every `RxBatchingStore`, outside of the store's own `batchMiddleware`
+export const addGlobalBatchMiddleware = (middleware: TRxGlobalBatchMiddleware): (() => void) =>
+  addTo(globalBatchMiddleware, middleware);
+
+export const getGlobalMiddleware = (): TRxGlobalMiddleware[] => globalMiddleware.slice();
+
+export const getGlobalBatchMiddleware = (): TRxGlobalBatchMiddleware[] => globalBatchMiddleware.slice();
+
+// Calls `fetch` through `middleware`, the first middleware is the outermost
+export const applyMiddleware = <T, Params, Extra>(
+  middleware: TRxMiddleware<T, Params, Extra>[],
+  fetch: TRxMiddlewareNext<T, Params, Extra>,
+): TRxMiddlewareNext<T, Params, Extra> =>
+  middleware.reduceRight<TRxMiddlewareNext<T, Params, Extra>>(
+    (next, current) => (params, extra) => defer(() => current(params, extra, next)),
+    fetch,
+  );
@@ -0,0 +1,130 @@
+import { of, throwError } from "rxjs";
+import { take } from "rxjs/operators";
+import { TestScheduler } from "rxjs/testing";
+import { IRxPage, RxPaginatedStore } from "./RxPaginatedStore";
+
+describe("RxPaginatedStore", () => {
+  const PARAMS = "LIST";
+  const PAGES: { [page: number]: IRxPage<string, number> } = {
+    0: { items: ["a", "b"], nextCursor: 1 },
+    1: { items: ["c", "d"], nextCursor: 2 },
+    2: { items: ["e"] },
+  };
+
+  let pageFetcher: jasmine.Spy;
+  let paginatedStore: RxPaginatedStore<string, string, number, string>;
+  const latest = () => paginatedStore.getStore(PARAMS).pipe(take(1)).toPromise();
+
+  beforeEach(() => {
+    pageFetcher = jasmine.createSpy("pageFetcher").and.callFake((_, cursor = 0) => of(PAGES[cursor]));
+    paginatedStore = new RxPaginatedStore(pageFetcher, (err) => err.message);
+    paginatedStore.getStore(PARAMS).subscribe();
+  });
+
+  it("fetches the first page", async () => {
+    expect(pageFetcher).toHaveBeenCalledWith(PARAMS, undefined);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b"], hasMore: true });
+  });
+
+  it("appends the next page", async () => {
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(pageFetcher).toHaveBeenCalledWith(PARAMS, 1);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b", "c", "d"], hasMore: true });
+  });
+
+  it("stops when there are no more pages", async () => {
+    paginatedStore.fetchNextPage(PARAMS);
+    paginatedStore.fetchNextPage(PARAMS);
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(pageFetcher).toHaveBeenCalledTimes(3);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b", "c", "d", "e"], hasMore: false });
+  });
+
+  it("caches each page individually", () => {
+    paginatedStore.fetchNextPage(PARAMS);
+    paginatedStore.getStore(PARAMS).subscribe();
+    expect(pageFetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("expire drops all but the first page and refetches it", async () => {
+    paginatedStore.fetchNextPage(PARAMS);
+    paginatedStore.expire(PARAMS);
+    expect(pageFetcher.calls.mostRecent().args).toEqual([PARAMS, undefined]);
+    expect(pageFetcher).toHaveBeenCalledTimes(3);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b"], hasMore: true });
+
+    // A dropped page is refetched rather than served from the cache
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(pageFetcher).toHaveBeenCalledTimes(4);
+    expect(pageFetcher.calls.mostRecent().args).toEqual([PARAMS, 1]);
+  });
+
+  it("surfaces page errors and requests a failed page again", async () => {
+    pageFetcher.and.returnValue(throwError(new Error("Page error")));
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b"], hasMore: false, error: "Page error" });
+
+    pageFetcher.and.returnValue(of(PAGES[1]));
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(pageFetcher.calls.mostRecent().args).toEqual([PARAMS, 1]);
+    expect(await latest()).toEqual({ loading: false, value: ["a", "b", "c", "d"], hasMore: true });
+  });
+
+  it("releases its pages once the list has no subscribers", () => {
+    const scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    paginatedStore = new RxPaginatedStore(pageFetcher, (err) => err.message, { deleteFromCacheTimeMS: 5, scheduler });
+    const subscription = paginatedStore.getStore(PARAMS).subscribe();
+    paginatedStore.fetchNextPage(PARAMS);
+    subscription.unsubscribe();
+    pageFetcher.calls.reset();
+
+    // Without subscribers the list is gone, there is no next page to request
+    paginatedStore.fetchNextPage(PARAMS);
+    expect(pageFetcher).not.toHaveBeenCalled();
+
+    scheduler.flush();
+    paginatedStore.getStore(PARAMS).subscribe();
+    expect(pageFetcher).toHaveBeenCalledTimes(1);
+    expect(pageFetcher).toHaveBeenCalledWith(PARAMS, undefined);
+  });
+
+  describe("without subscribers", () => {
+    beforeEach(() => {
+      paginatedStore = new RxPaginatedStore(pageFetcher, (err) => err.message);
+      paginatedStore.getStore(PARAMS).subscribe().unsubscribe();
+      pageFetcher.calls.reset();
+      pageFetcher.and.callFake((_, cursor = 0) => of({ ...PAGES[cursor], items: [`new ${cursor}`] }));
+    });
+
+    it("expire refetches the cached pages", async () => {
+      paginatedStore.expire(PARAMS);
+      expect(await latest()).toEqual({ loading: false, value: ["new 0"], hasMore: true });
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("expire refetches dropped pages when they are requested again", () => {
+      const subscription = paginatedStore.getStore(PARAMS).subscribe();
+      paginatedStore.fetchNextPage(PARAMS);
+      subscription.unsubscribe();
+      paginatedStore.expire(PARAMS);
+      pageFetcher.calls.reset();
+
+      paginatedStore.getStore(PARAMS).subscribe();
+      paginatedStore.fetchNextPage(PARAMS);
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+      expect(pageFetcher).toHaveBeenCalledWith(PARAMS, 1);
+    });
+
+    it("force refetches the cached pages", async () => {
+      expect(await paginatedStore.getStore(PARAMS, { force: true }).pipe(take(1)).toPromise())
+        .toEqual({ loading: false, value: ["new 0"], hasMore: true });
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("passes staleTimeMS on to the pages", async () => {
+      paginatedStore.getStore(PARAMS, { staleTimeMS: 0 }).subscribe();
+      expect(pageFetcher).toHaveBeenCalledTimes(1);
+      expect(await latest()).toEqual({ loading: false, value: ["new 0"], hasMore: true });
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { BehaviorSubject, combineLatest, Observable } from "rxjs";
+import { finalize, map, shareReplay, switchMap, tap } from "rxjs/operators";
+import { nodeObjectSorter } from "./NodeObjectSorter";
+import { IRxStore, IRxStoreConfig, IRxStoreOptions, RxStore, TParamHasher } from "./RxStore";
+
+export interface IRxPage<T, Cursor> {
+  items: T[];
+  // The cursor (or page number) of the next page, `undefined` when this is the last page
+  nextCursor?: Cursor;
+}
+
+export interface IRxPageParams<Params, Cursor> {
+  params: Params;
+  cursor?: Cursor;
+}
+
+export interface IRxPaginatedStore<T, TError> {
+  loading: boolean;
+  value: T[];
+  error?: TError;
+  hasMore: boolean;
+}
+
+// Takes the same config as RxStore, only `paramHasher` hashes the list params (pages are keyed by it and their cursor)
+export interface IRxPaginatedStoreConfig<T, Params, Cursor, TError>
+  extends Omit<IRxStoreConfig<IRxPage<T, Cursor>, IRxPageParams<Params, Cursor>, void, TError>, "paramHasher"> {
+  paramHasher?: TParamHasher<Params>;
+}
+
+export type TPageFetcher<T, Params, Cursor> = (
+  params: Params,
+  cursor: Cursor | undefined,
+) => Observable<IRxPage<T, Cursor>>;
+
+interface IRxPaginatedList<T, Params, Cursor, TError> {
+  params: Params;
+  // The cursors of the pages that have been requested so far, the first page has an `undefined` cursor
+  cursors: BehaviorSubject<(Cursor | undefined)[]>;
+  pages: IRxStore<IRxPage<T, Cursor>, TError>[];
+  // The `staleTimeMS` of the last `getStore` that passed one, it applies to every page of the list
+  staleTimeMS?: number;
+  observable: Observable<IRxPaginatedStore<T, TError>>;
+}
+
+// An infinite list: every page is cached individually in an RxStore (keyed by the params and the page cursor)
+// and the pages that have been requested are concatenated into a single list
+export class RxPaginatedStore<T, Params, Cursor = number, TError = Error> {
+  private readonly pageStore: RxStore<IRxPage<T, Cursor>, IRxPageParams<Params, Cursor>, void, TError>;
+  private lists: { [key: string]: IRxPaginatedList<T, Params, Cursor, TError> } = {};
+  // The cursors of the pages that were dropped by an expire, by list key. They outlive the list (it is dropped
+  // without subscribers) and are refetched rather than served from the cache when they are requested again.
+  private expiredCursors: { [key: string]: Set<Cursor> } = {};
+
+  constructor(
+    fetcher: TPageFetcher<T, Params, Cursor>,
+    errorParserLogger: (err: Error) => TError,
+    private readonly config: IRxPaginatedStoreConfig<T, Params, Cursor, TError> = {},
+  ) {
+    const { paramHasher = nodeObjectSorter } = config;
+    this.pageStore = new RxStore(
+      ({ params, cursor }: IRxPageParams<Params, Cursor>) => fetcher(params, cursor),
+      errorParserLogger,
+      { ...config, paramHasher: ({ params, cursor }) => nodeObjectSorter({ params: paramHasher(params), cursor }) },
+    );
+  }
+
+  public getStore(
+    params: Params,
+    options: IRxStoreOptions<void> = { force: false },
+  ): Observable<IRxPaginatedStore<T, TError>> {
+    const { force, staleTimeMS } = options;
+    if (force) {
+      this.expire(params);
+    }
+    const existingList = this.lists[this.getKey(params)];
+    const list = this.init(params);
+    if (staleTimeMS !== undefined) {
+      list.staleTimeMS = staleTimeMS;
+      // The pages of a new list are requested with it once it is subscribed to
+      if (existingList) {
+        list.cursors.getValue().forEach((cursor) => this.pageStore.getStore({ params, cursor }, { staleTimeMS }));
+      }
+    }
+    return list.observable;
+  }
+
+  // Requests the page after the last one. Does nothing while a page is loading or when there are no more pages,
+  // a failed page is requested again.
+  // N.B only lists that are subscribed to have pages, it does nothing for lists without subscribers
+  public fetchNextPage(params: Params): void {
+    const key = this.getKey(params);
+    const list = this.lists[key];
+    const lastPage = list && list.pages[list.pages.length - 1];
+    if (!lastPage || lastPage.loading) {
+      return;
+    }
+    const cursors = list.cursors.getValue();
+    if (lastPage.error) {
+      this.pageStore.getStore({ params, cursor: cursors[cursors.length - 1] }, { force: true });
+    } else if (lastPage.value && lastPage.value.nextCursor !== undefined) {
+      const { nextCursor } = lastPage.value;
+      const expiredCursors = this.expiredCursors[key];
+      if (expiredCursors && expiredCursors.delete(nextCursor)) {
+        this.pageStore.getStore({ params, cursor: nextCursor }, { force: true });
+      }
+      list.cursors.next([...cursors, nextCursor]);
+    }
+  }
+
+  // Drops every page but the first and refetches it, whether or not the list is subscribed to
+  public expire(params: Params): void {
+    this.expireKeys([this.getKey(params)]);
+  }
+
+  public expireAll(): void {
+    this.expireKeys(this.pageStore.entries().map((entry) => this.getKey(entry.params.params)));
+  }
+
+  private getKey(params: Params): string {
+    const { paramHasher = nodeObjectSorter } = this.config;
+    return paramHasher(params);
+  }
+
+  private expireKeys(keys: string[]): void {
+    const expiredKeys = new Set(keys);
+    const isExpired = (page: IRxPageParams<Params, Cursor>) => expiredKeys.has(this.getKey(page.params));
+    expiredKeys.forEach((key) => this.expiredCursors[key] = new Set());
+    this.pageStore.entries().forEach(({ params: page }) => {
+      if (page.cursor !== undefined && isExpired(page)) {
+        this.expiredCursors[this.getKey(page.params)].add(page.cursor);
+      }
+    });
+    this.pageStore.expireWhere((page) => page.cursor === undefined && isExpired(page));
+    expiredKeys.forEach((key) => {
+      if (!this.expiredCursors[key].size) {
+        delete this.expiredCursors[key];
+      }
+      if (this.lists[key]) {
+        this.lists[key].cursors.next([undefined]);
+      }
+    });
+  }
+
+  private init(params: Params): IRxPaginatedList<T, Params, Cursor, TError> {
+    const key = this.getKey(params);
+    if (this.lists[key]) {
+      return this.lists[key];
+    }
+    const cursors = new BehaviorSubject<(Cursor | undefined)[]>([undefined]);
+    const list: IRxPaginatedList<T, Params, Cursor, TError> = {
+      cursors,
+      observable: undefined,
+      pages: [],
+      params,
+    };
+    list.observable = cursors.pipe(
+      switchMap((pageCursors) => combineLatest(
+        pageCursors.map((cursor) => this.pageStore.getStore({ params, cursor }, { staleTimeMS: list.staleTimeMS })),
+      )),
+      tap((pages) => list.pages = pages),
+      map((pages) => {
+        const lastPage = pages[pages.length - 1];
+        const error = pages.map((page) => page.error).find(Boolean);
+        return {
+          hasMore: !!lastPage.value && lastPage.value.nextCursor !== undefined,
+          loading: pages.some((page) => page.loading),
+          value: pages.reduce((items, page) => page.value ? items.concat(page.value.items) : items, [] as T[]),
+          ...(error ? { error } : undefined),
+        };
+      }),
+      // The list (and the pages that have been requested) is dropped once it has no subscribers, so its pages
+      // lose their subscribers too and `deleteFromCacheTimeMS` applies to them
+      finalize(() => {
+        if (this.lists[key] === list) {
+          delete this.lists[key];
+        }
+      }),
+      shareReplay({ bufferSize: 1, refCount: true }),
+    );
+    this.lists[key] = list;
+    return list;
+  }
+}
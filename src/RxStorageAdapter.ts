@@ -0,0 +1,21 @@
+export interface IRxStorageAdapter {
+  getItem<V>(key: string): V | undefined;
+  setItem<V>(key: string, value: V): void;
+  removeItem(key: string): void;
+}
+
+export class RxMemoryStorageAdapter implements IRxStorageAdapter {
+  private items = new Map<string, unknown>();
+
+  public getItem<V>(key: string): V | undefined {
+    return this.items.get(key) as V | undefined;
+  }
+
+  public setItem<V>(key: string, value: V): void {
+    this.items.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
@@ -1,14 +1,20 @@
-import { Observable, of, throwError } from "rxjs";
-import { delay, take, toArray } from "rxjs/operators";
-import { RxStore, TFetcher } from "./RxStore";
+import { Observable, of, Subject, throwError } from "rxjs";
+import { concatMap, delay, filter, take, toArray } from "rxjs/operators";
+import { IRxAbortSignal } from "./RxAbortController";
+import { IRxStore, IRxStoreConfig, RxStore, TFetcher } from "./RxStore";
+import { RxMemoryStorageAdapter } from "./RxStorageAdapter";
+import { debugRxStore } from "./RxStoreDebug";
+import { RxMemorySyncTransport } from "./RxSyncTransport";
+import { TRxStoreEvent } from "./RxStoreEvents";
+import { storeFilterOutLoading } from "./RxStoreUtil";
 
 interface ITestObj {
   test: string;
 }
 
 class TestStore extends RxStore<ITestObj, string> {
-  constructor(fetcher: TFetcher<ITestObj, string>, deleteFromCacheTimeMS?: number) {
-    super(fetcher, () => void 0, deleteFromCacheTimeMS);
+  constructor(fetcher: TFetcher<ITestObj, string>, config?: IRxStoreConfig<ITestObj, string>) {
+    super(fetcher, () => void 0, config);
   }
 
   public accessStore() {
@@ -64,8 +70,8 @@ describe("RxStore", () => {
 
     it("emits expected values", async () => {
       const expectedValues = [
-        { loading: true, value: undefined },
-        { loading: false, value: TEST_RESULT },
+        { loading: true, value: undefined, hasValue: false, isStale: false },
+        { loading: false, value: TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
       ];
       const emittedValues = await rxStore
         .getStore(TEST_PARAM)
@@ -77,7 +83,9 @@ describe("RxStore", () => {
     it("emits locally updated value when set", async () => {
       const LOCAL_TEST_RESULT = { test: "LOCAL_TEST_STRING" };
       rxStore.updateStoreValue(TEST_PARAM, LOCAL_TEST_RESULT);
-      const expectedValues = [{ loading: false, value: LOCAL_TEST_RESULT }];
+      const expectedValues = [
+        { loading: false, value: LOCAL_TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
+      ];
       const emittedValues = await rxStore
         .getStore(TEST_PARAM)
         .pipe(take(1), toArray())
@@ -88,10 +96,12 @@ describe("RxStore", () => {
     it("emits network and then updated value", async () => {
       const LOCAL_TEST_RESULT = { test: "LOCAL_TEST_STRING" };
       const expectedFirstValues = [
-        { loading: true, value: undefined },
-        { loading: false, value: TEST_RESULT },
+        { loading: true, value: undefined, hasValue: false, isStale: false },
+        { loading: false, value: TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
+      ];
+      const expectedSecondValues = [
+        { loading: false, value: LOCAL_TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
       ];
-      const expectedSecondValues = [{ loading: false, value: LOCAL_TEST_RESULT }];
       const store = rxStore.getStore(TEST_PARAM);
       const emittedValues = await store.pipe(take(2), toArray()).toPromise();
       expect(emittedValues).toEqual(expectedFirstValues);
@@ -105,7 +115,9 @@ describe("RxStore", () => {
     it("emits locally updated value when set, and refetches when forced", async () => {
       const LOCAL_TEST_RESULT = { test: "LOCAL_TEST_STRING" };
       rxStore.updateStoreValue(TEST_PARAM, LOCAL_TEST_RESULT);
-      const expectedValues = [{ loading: false, value: LOCAL_TEST_RESULT }];
+      const expectedValues = [
+        { loading: false, value: LOCAL_TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
+      ];
       const emittedValues = await rxStore
         .getStore(TEST_PARAM)
         .pipe(take(1), toArray())
@@ -114,8 +126,8 @@ describe("RxStore", () => {
       rxStore.getStore(TEST_PARAM, { force: true });
 
       const expectedSecondValues = [
-        { loading: true, value: LOCAL_TEST_RESULT },
-        { loading: false, value: TEST_RESULT },
+        { loading: true, value: LOCAL_TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
+        { loading: false, value: TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
       ];
       const store = rxStore.getStore(TEST_PARAM);
       const emittedValues2 = await store.pipe(take(2), toArray()).toPromise();
@@ -124,7 +136,7 @@ describe("RxStore", () => {
 
     it("respects deleteFromCacheTimeMS and deletes observable from cache", async () => {
       const deleteFromCacheTimeMS = 200;
-      rxStore = new TestStore(mockFetcher, deleteFromCacheTimeMS);
+      rxStore = new TestStore(mockFetcher, { deleteFromCacheTimeMS });
       const store1 = rxStore.getStore(TEST_PARAM);
       const sub = store1.subscribe();
       sub.unsubscribe();
@@ -139,7 +151,7 @@ describe("RxStore", () => {
 
     it("respects unset deleteFromCacheTimeMS and does not remove observable from cache", async () => {
       const deleteFromCacheTimeMS = undefined;
-      rxStore = new TestStore(mockFetcher, deleteFromCacheTimeMS);
+      rxStore = new TestStore(mockFetcher, { deleteFromCacheTimeMS });
       const store1 = rxStore.getStore(TEST_PARAM);
       const sub = store1.subscribe();
       sub.unsubscribe();
@@ -153,6 +165,560 @@ describe("RxStore", () => {
     });
   });
 
+  describe("staleTimeMS", () => {
+    const staleTimeMS = 50;
+    const wait = (ms: number) => of(undefined).pipe(delay(ms)).toPromise();
+
+    beforeEach(() => {
+      mockFetcher = jasmine.createSpy().and.returnValue(of(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher, { staleTimeMS });
+    });
+
+    it("does not refetch a value that is still fresh", () => {
+      rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore(TEST_PARAM).subscribe();
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("serves the stale value while loading and refetches in the background", async () => {
+      const LOCAL_TEST_RESULT = { test: "LOCAL_TEST_STRING" };
+      mockFetcher = jasmine.createSpy().and.returnValue(toDelayedOb(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher, { staleTimeMS });
+      rxStore.updateStoreValue(TEST_PARAM, LOCAL_TEST_RESULT);
+      rxStore.getStore(TEST_PARAM).subscribe();
+      await wait(staleTimeMS);
+
+      const emittedValues = await rxStore
+        .getStore(TEST_PARAM)
+        .pipe(take(2), toArray())
+        .toPromise();
+      expect(emittedValues).toEqual([
+        { loading: true, value: LOCAL_TEST_RESULT, hasValue: true, isStale: true, fetchedAt: jasmine.any(Number) },
+        { loading: false, value: TEST_RESULT, hasValue: true, isStale: false, fetchedAt: jasmine.any(Number) },
+      ]);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("respects staleTimeMS passed to getStore", async () => {
+      rxStore.getStore(TEST_PARAM).subscribe();
+      await wait(10);
+      rxStore.getStore(TEST_PARAM, { staleTimeMS: 1000 }).subscribe();
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+      rxStore.getStore(TEST_PARAM, { staleTimeMS: 5 }).subscribe();
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("does not restart a refetch that is already in flight", async () => {
+      mockFetcher = jasmine.createSpy().and.returnValue(toDelayedOb(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher, { staleTimeMS });
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      await wait(staleTimeMS);
+      rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore(TEST_PARAM).subscribe();
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("retry", () => {
+    const retry = { maxAttempts: 3, baseDelayMS: 10, jitter: false };
+
+    it("retries a failed fetch with backoff and emits the successful value", async () => {
+      mockFetcher = jasmine.createSpy().and.returnValues(
+        throwError("This is an error!"),
+        throwError("This is an error!"),
+        of(TEST_RESULT),
+      );
+      rxStore = new TestStore(mockFetcher, { retry });
+      const emittedValues = await rxStore
+        .getStore(TEST_PARAM)
+        .pipe(storeFilterOutLoading, take(1))
+        .toPromise();
+      expect(emittedValues.value).toEqual(TEST_RESULT);
+      expect(emittedValues.retryCount).toEqual(2);
+      expect(mockFetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it("exposes retryCount and nextRetryAt while waiting to retry", async () => {
+      mockFetcher = jasmine.createSpy().and.returnValues(throwError("This is an error!"), of(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher, { retry });
+      const before = Date.now();
+      const emittedValue = await rxStore
+        .getStore(TEST_PARAM)
+        .pipe(take(1))
+        .toPromise();
+      expect(emittedValue.loading).toBe(true);
+      expect(emittedValue.retryCount).toBeUndefined();
+      expect(emittedValue.nextRetryAt).toBeGreaterThanOrEqual(before + retry.baseDelayMS);
+    });
+
+    it("gives up after maxAttempts", async () => {
+      mockFetcher = jasmine.createSpy().and.returnValue(throwError("This is an error!"));
+      rxStore = new TestStore(mockFetcher, { retry });
+      const emittedValue = await rxStore
+        .getStore(TEST_PARAM)
+        .pipe(storeFilterOutLoading, take(1))
+        .toPromise();
+      expect(emittedValue.retryCount).toEqual(2);
+      expect(emittedValue.nextRetryAt).toBeUndefined();
+      expect(mockFetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it("only retries errors matching shouldRetry", async () => {
+      mockFetcher = jasmine.createSpy().and.returnValue(throwError("This is an error!"));
+      const shouldRetry = jasmine.createSpy().and.returnValue(false);
+      rxStore = new TestStore(mockFetcher, { retry: { ...retry, shouldRetry } });
+      await rxStore
+        .getStore(TEST_PARAM)
+        .pipe(storeFilterOutLoading, take(1))
+        .toPromise();
+      expect(shouldRetry).toHaveBeenCalledWith(undefined, 0);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("mutate", () => {
+    const OPTIMISTIC_RESULT = { test: "OPTIMISTIC_STRING" };
+    const COMMITTED_RESULT = { test: "COMMITTED_STRING" };
+    const latestValue = () => rxStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+
+    beforeEach(() => {
+      mockFetcher = jasmine.createSpy().and.returnValue(of(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher);
+      rxStore.getStore(TEST_PARAM).subscribe();
+    });
+
+    it("applies the optimistic value and then the committed value", async () => {
+      const commit$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit$);
+      expect((await latestValue()).value).toEqual(OPTIMISTIC_RESULT);
+
+      commit$.next(COMMITTED_RESULT);
+      commit$.complete();
+      expect((await latestValue()).value).toEqual(COMMITTED_RESULT);
+    });
+
+    it("rolls back and emits the error when the commit fails", async () => {
+      const store = new RxStore<ITestObj, string, void, string>(mockFetcher, (err) => err.message);
+      store.getStore(TEST_PARAM).subscribe();
+      const commit$ = new Subject<ITestObj>();
+      const result = store.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit$).toPromise();
+      commit$.error(new Error("Rejected"));
+
+      const emittedValue = await store.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(emittedValue.error).toEqual("Rejected");
+      expect((await result).error).toEqual("Rejected");
+    });
+
+    it("keeps overlapping mutations consistent", async () => {
+      const SECOND_OPTIMISTIC_RESULT = { test: "SECOND_OPTIMISTIC_STRING" };
+      const commit1$ = new Subject<ITestObj>();
+      const commit2$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit1$);
+      rxStore.mutate(TEST_PARAM, SECOND_OPTIMISTIC_RESULT, commit2$);
+
+      // The first mutation failing must not undo the second, still pending, mutation
+      commit1$.error(new Error("Rejected"));
+      expect((await latestValue()).value).toEqual(SECOND_OPTIMISTIC_RESULT);
+
+      // The second failing rolls back to the value from before both mutations
+      commit2$.error(new Error("Rejected"));
+      expect((await latestValue()).value).toEqual(TEST_RESULT);
+    });
+
+    it("keeps the newest commit when commits resolve out of order", async () => {
+      const SECOND_OPTIMISTIC_RESULT = { test: "SECOND_OPTIMISTIC_STRING" };
+      const SECOND_COMMITTED_RESULT = { test: "SECOND_COMMITTED_STRING" };
+      const commit1$ = new Subject<ITestObj>();
+      const commit2$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit1$);
+      rxStore.mutate(TEST_PARAM, SECOND_OPTIMISTIC_RESULT, commit2$);
+
+      // The first mutation's optimistic value is superseded by the second's commit
+      commit2$.next(SECOND_COMMITTED_RESULT);
+      commit2$.complete();
+      expect((await latestValue()).value).toEqual(SECOND_COMMITTED_RESULT);
+
+      // The older commit resolving last must not replace the newer one
+      commit1$.next(COMMITTED_RESULT);
+      commit1$.complete();
+      expect((await latestValue()).value).toEqual(SECOND_COMMITTED_RESULT);
+    });
+
+    it("rolls back to the most recent committed value", async () => {
+      const commit1$ = new Subject<ITestObj>();
+      const commit2$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit1$);
+      rxStore.mutate(TEST_PARAM, { test: "SECOND_OPTIMISTIC_STRING" }, commit2$);
+      commit1$.next(COMMITTED_RESULT);
+      commit1$.complete();
+      commit2$.error(new Error("Rejected"));
+      expect((await latestValue()).value).toEqual(COMMITTED_RESULT);
+    });
+
+    it("refetches after rolling back a mutation that interrupted the initial fetch", async () => {
+      const fetch$ = new Subject<ITestObj>();
+      mockFetcher = jasmine.createSpy().and.returnValues(fetch$, of(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher);
+      rxStore.getStore(TEST_PARAM).subscribe();
+      const commit$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit$);
+      commit$.error(new Error("Rejected"));
+
+      expect((await latestValue()).value).toEqual(TEST_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("refetches after rolling back a mutation that interrupted a refetch", async () => {
+      const refetch$ = new Subject<ITestObj>();
+      (mockFetcher as jasmine.Spy).and.returnValues(refetch$, of(COMMITTED_RESULT));
+      rxStore.getStore(TEST_PARAM, { force: true });
+      const commit$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit$);
+      commit$.error(new Error("Rejected"));
+
+      expect((await latestValue()).value).toEqual(COMMITTED_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it("serves a rolled back value from the cache when no fetch was interrupted", async () => {
+      const commit$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit$);
+      commit$.error(new Error("Rejected"));
+
+      expect((await latestValue()).value).toEqual(TEST_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("persistence", () => {
+    let adapter: RxMemoryStorageAdapter;
+
+    beforeEach(() => {
+      adapter = new RxMemoryStorageAdapter();
+      mockFetcher = jasmine.createSpy().and.returnValue(of(TEST_RESULT));
+    });
+
+    it("writes resolved values through to the adapter", () => {
+      rxStore = new TestStore(mockFetcher, { name: "test", persist: { adapter, version: 1 } });
+      rxStore.getStore(TEST_PARAM).subscribe();
+      expect(adapter.getItem("test:TEST")).toEqual({
+        fetchedAt: jasmine.any(Number),
+        params: TEST_PARAM,
+        value: TEST_RESULT,
+        version: 1,
+      });
+    });
+
+    it("hydrates entries from the adapter instead of fetching", async () => {
+      adapter.setItem("TEST", { params: TEST_PARAM, value: TEST_RESULT, fetchedAt: Date.now(), version: 1 });
+      rxStore = new TestStore(mockFetcher, { persist: { adapter, version: 1 } });
+      const emittedValue = await rxStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(mockFetcher).not.toHaveBeenCalled();
+    });
+
+    it("counts hydrated entries towards maxSize", () => {
+      adapter.setItem("A", { params: "A", value: { test: "12345" }, fetchedAt: Date.now(), version: 1 });
+      rxStore = new TestStore(mockFetcher, {
+        maxSize: 10,
+        persist: { adapter, version: 1 },
+        sizeOf: (value) => value.test.length,
+      });
+      rxStore.getStore("A");
+      rxStore.updateStoreValue("B", { test: "123456" });
+      expect(rxStore.keys()).toEqual(["B"]);
+    });
+
+    it("discards persisted entries with a different version", () => {
+      adapter.setItem("TEST", { params: TEST_PARAM, value: TEST_RESULT, fetchedAt: Date.now(), version: 1 });
+      rxStore = new TestStore(mockFetcher, { persist: { adapter, version: 2 } });
+      rxStore.getStore(TEST_PARAM).subscribe();
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+      expect(adapter.getItem<{ version: number }>("TEST").version).toEqual(2);
+    });
+
+    it("restores a dehydrated snapshot", async () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      const snapshot = JSON.parse(JSON.stringify(rxStore.dehydrate()));
+
+      const restoredStore = new TestStore(mockFetcher);
+      restoredStore.hydrate(snapshot);
+      const emittedValue = await restoredStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(emittedValue.fetchedAt).toEqual(snapshot[TEST_PARAM].fetchedAt);
+      expect(mockFetcher).not.toHaveBeenCalled();
+    });
+
+    it("only writes settled values to the adapter", () => {
+      const OPTIMISTIC_RESULT = { test: "OPTIMISTIC_STRING" };
+      rxStore = new TestStore(mockFetcher, { persist: { adapter, version: 1 } });
+      rxStore.getStore(TEST_PARAM).subscribe();
+      const commit1$ = new Subject<ITestObj>();
+      const commit2$ = new Subject<ITestObj>();
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit1$);
+      rxStore.mutate(TEST_PARAM, OPTIMISTIC_RESULT, commit2$);
+      commit1$.complete();
+      expect(adapter.getItem<{ value: ITestObj }>("TEST").value).toEqual(TEST_RESULT);
+
+      commit2$.complete();
+      expect(adapter.getItem<{ value: ITestObj }>("TEST").value).toEqual(OPTIMISTIC_RESULT);
+    });
+
+    it("ignores snapshot entries with a different version", () => {
+      rxStore = new TestStore(mockFetcher, { persist: { adapter, version: 2 } });
+      rxStore.hydrate({ TEST: { params: TEST_PARAM, value: TEST_RESULT, fetchedAt: Date.now(), version: 1 } });
+      expect(Object.keys(rxStore.accessStore()).length).toEqual(0);
+    });
+  });
+
+  describe("maxEntries / maxSize", () => {
+    const keys = () => Object.keys(rxStore.accessStore());
+
+    beforeEach(() => {
+      mockFetcher = jasmine.createSpy().and.returnValue(of(TEST_RESULT));
+    });
+
+    it("evicts the least recently used entries", () => {
+      const onEvict = jasmine.createSpy("onEvict");
+      rxStore = new TestStore(mockFetcher, { maxEntries: 2, onEvict });
+      rxStore.updateStoreValue("A", TEST_RESULT);
+      rxStore.updateStoreValue("B", TEST_RESULT);
+      rxStore.getStore("A");
+      rxStore.updateStoreValue("C", TEST_RESULT);
+      expect(keys()).toEqual(["A", "C"]);
+      expect(onEvict).toHaveBeenCalledWith("B", TEST_RESULT);
+    });
+
+    it("never evicts entries with subscribers", () => {
+      rxStore = new TestStore(mockFetcher, { maxEntries: 1 });
+      const sub = rxStore.getStore("A").subscribe();
+      rxStore.getStore("B").subscribe();
+      expect(keys()).toEqual(["A", "B"]);
+
+      // Once the subscriber leaves the store is brought back within bounds
+      sub.unsubscribe();
+      expect(keys()).toEqual(["B"]);
+    });
+
+    it("doesn't evict entries handed out by the same multi-param call", () => {
+      rxStore = new TestStore(mockFetcher, { maxEntries: 1 });
+      const values = [];
+      rxStore.getStores(["A", "B", "C"]).subscribe((stores) => values.push(stores.value));
+      expect(keys()).toEqual(["A", "B", "C"]);
+
+      rxStore.updateStoreValue("A", { test: "LOCAL" });
+      rxStore.getStoresMap(["D", "E"]).subscribe();
+      expect(keys()).toEqual(["A", "B", "C", "D", "E"]);
+      expect(rxStore.peek("A").value).toEqual({ test: "LOCAL" });
+    });
+
+    it("evicts the entries prefetched by one call once they settle", async () => {
+      rxStore = new TestStore(mockFetcher, { maxEntries: 1 });
+      await rxStore.prefetch(["A", "B", "C"]);
+      expect(keys()).toEqual(["C"]);
+    });
+
+    it("evicts by the total of sizeOf", () => {
+      rxStore = new TestStore(mockFetcher, { maxSize: 10, sizeOf: (value) => value.test.length });
+      rxStore.updateStoreValue("A", { test: "12345" });
+      rxStore.updateStoreValue("B", { test: "12345" });
+      expect(keys()).toEqual(["A", "B"]);
+      rxStore.updateStoreValue("C", { test: "1" });
+      expect(keys()).toEqual(["B", "C"]);
+    });
+  });
+
+  describe("cancellation", () => {
+    let signals: IRxAbortSignal[];
+
+    beforeEach(() => {
+      signals = [];
+      mockFetcher = jasmine.createSpy().and.callFake((_, __, signal: IRxAbortSignal) => {
+        signals.push(signal);
+        return toDelayedOb(TEST_RESULT);
+      });
+      rxStore = new TestStore(mockFetcher);
+    });
+
+    it("passes the fetcher a signal that is not aborted once the fetch completes", async () => {
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(signals.length).toEqual(1);
+      expect(signals[0].aborted).toBe(false);
+    });
+
+    it("aborts the signal of a fetch that is replaced by a forced refetch", () => {
+      rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore(TEST_PARAM, { force: true });
+      expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+    });
+
+    it("cancel aborts the in-flight fetch, keeps the value and refetches on the next getStore", async () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore(TEST_PARAM, { force: true });
+      rxStore.cancel(TEST_PARAM);
+      expect(signals[0].aborted).toBe(true);
+
+      const emittedValue = await rxStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      expect(emittedValue.loading).toBe(true);
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("aborts a fetch once its last subscriber unsubscribes when cancelUnobservedFetches is set", () => {
+      rxStore = new TestStore(mockFetcher, { cancelUnobservedFetches: true });
+      const sub1 = rxStore.getStore(TEST_PARAM).subscribe();
+      const sub2 = rxStore.getStore(TEST_PARAM).subscribe();
+      sub1.unsubscribe();
+      expect(signals[0].aborted).toBe(false);
+      sub2.unsubscribe();
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    it("keeps fetching without subscribers by default", () => {
+      rxStore.getStore(TEST_PARAM).subscribe().unsubscribe();
+      expect(signals[0].aborted).toBe(false);
+    });
+  });
+
+  describe("events$ / getStats", () => {
+    let events: TRxStoreEvent<ITestObj, string, Error>[];
+
+    beforeEach(() => {
+      events = [];
+      rxStore.events$.pipe(filter((event) => event.type !== "stateChange")).subscribe((event) => events.push(event));
+    });
+
+    it("emits init, fetchStart and fetchSuccess for a cache miss", async () => {
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(events.map((event) => event.type)).toEqual(["init", "fetchStart", "fetchSuccess"]);
+      expect(events[2]).toEqual(jasmine.objectContaining({
+        durationMS: jasmine.any(Number),
+        key: TEST_PARAM,
+        params: TEST_PARAM,
+        retryCount: 0,
+      }));
+    });
+
+    it("emits cacheHit when a cached value is served", async () => {
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      rxStore.getStore(TEST_PARAM);
+      expect(events[events.length - 1]).toEqual(jasmine.objectContaining({ key: TEST_PARAM, type: "cacheHit" }));
+      expect(rxStore.getStats()).toEqual(jasmine.objectContaining({ hitCount: 1, hitRatio: 0.5, missCount: 1 }));
+    });
+
+    it("emits fetchError and expire", async () => {
+      rxStore = new TestStore(() => throwError(new Error("NOPE")));
+      rxStore.events$.pipe(filter((event) => event.type !== "stateChange")).subscribe((event) => events.push(event));
+      await rxStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      rxStore.expireAll();
+      expect(events.slice(0, 4).map((event) => event.type)).toEqual(["init", "fetchStart", "fetchError", "expire"]);
+      expect(events[2]).toEqual(jasmine.objectContaining({ willRetry: false }));
+    });
+
+    it("emits evict with the reason", () => {
+      rxStore = new TestStore(mockFetcher, { maxEntries: 1 });
+      rxStore.events$.subscribe((event) => events.push(event));
+      rxStore.updateStoreValue("A", TEST_RESULT);
+      rxStore.updateStoreValue("B", TEST_RESULT);
+      expect(events[events.length - 1]).toEqual(jasmine.objectContaining({ key: "A", reason: "limit", type: "evict" }));
+    });
+
+    it("reports in-flight fetches and subscribers per key", () => {
+      rxStore = new TestStore(mockFetcher, { deleteFromCacheTimeMS: 1000 });
+      const sub = rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore("TEST_PARAM_2").subscribe().unsubscribe();
+      const stats = rxStore.getStats();
+      expect(stats.entryCount).toEqual(2);
+      expect(stats.inFlightCount).toEqual(2);
+      expect(stats.subscriberCount).toEqual(1);
+      expect(stats.entries[TEST_PARAM]).toEqual({ fetching: true, pendingDeletion: false, subscriberCount: 1 });
+      expect(stats.entries.TEST_PARAM_2).toEqual({ fetching: true, pendingDeletion: true, subscriberCount: 0 });
+      sub.unsubscribe();
+      rxStore.getStore("TEST_PARAM_2").subscribe().unsubscribe();
+    });
+  });
+
+  describe("inspection", () => {
+    it("lists keys and entries", () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      expect(rxStore.keys()).toEqual([TEST_PARAM]);
+      expect(rxStore.has(TEST_PARAM)).toBe(true);
+      expect(rxStore.has("TEST_PARAM_2")).toBe(false);
+      expect(rxStore.entries()).toEqual([
+        {
+          key: TEST_PARAM,
+          params: TEST_PARAM,
+          state: jasmine.objectContaining({ loading: false, value: TEST_RESULT }),
+        },
+      ]);
+    });
+
+    it("peeks at the current state without subscribing or fetching", () => {
+      expect(rxStore.peek(TEST_PARAM)).toBeUndefined();
+      rxStore.getStore(TEST_PARAM);
+      expect(rxStore.peek(TEST_PARAM)).toEqual(jasmine.objectContaining({ loading: false, value: undefined }));
+      expect(mockFetcher).not.toHaveBeenCalled();
+
+      rxStore.getStore(TEST_PARAM).subscribe();
+      expect(rxStore.peek(TEST_PARAM)).toEqual(jasmine.objectContaining({ loading: true, value: undefined }));
+    });
+
+    it("peeks at errors", () => {
+      const error = new Error("NOPE");
+      const failingStore = new RxStore<ITestObj, string>(() => throwError(error), (err) => err);
+      failingStore.getStore(TEST_PARAM).subscribe();
+      expect(failingStore.peek(TEST_PARAM)).toEqual(jasmine.objectContaining({ error, loading: false }));
+      expect(failingStore.snapshot()).toEqual({
+        [TEST_PARAM]: jasmine.objectContaining({ fetching: false, params: TEST_PARAM, subscriberCount: 1 }),
+      });
+    });
+
+    it("logs state transitions with debugRxStore", async () => {
+      const log = jasmine.createSpy("log");
+      const subscription = debugRxStore(rxStore, "TestStore", log);
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      subscription.unsubscribe();
+      expect(log.calls.allArgs().map(([message]) => message)).toEqual([
+        "TestStore[TEST] new -> loading",
+        jasmine.stringMatching(/^TestStore\[TEST\] loading -> loaded after \d+ms$/),
+      ]);
+    });
+  });
+
+  describe("prefetch", () => {
+    it("fetches without a subscriber and resolves once the value settles", async () => {
+      await rxStore.prefetch([TEST_PARAM, "TEST_PARAM_2"]);
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+      expect(rxStore.peek(TEST_PARAM)).toEqual(jasmine.objectContaining({ loading: false, value: TEST_RESULT }));
+
+      const emittedValue = await rxStore.getStore(TEST_PARAM).pipe(take(1)).toPromise();
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("resolves straight away for cached values", async () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      await rxStore.prefetch(TEST_PARAM);
+      expect(mockFetcher).not.toHaveBeenCalled();
+    });
+
+    it("resolves when the fetch fails", async () => {
+      rxStore = new TestStore(() => throwError(new Error("NOPE")));
+      await rxStore.prefetch(TEST_PARAM);
+      expect(rxStore.peek(TEST_PARAM).loading).toBe(false);
+    });
+
+    it("respects deleteFromCacheTimeMS", async () => {
+      rxStore = new TestStore(mockFetcher, { deleteFromCacheTimeMS: 5 });
+      await rxStore.prefetch(TEST_PARAM);
+      expect(rxStore.has(TEST_PARAM)).toBe(true);
+      await of(undefined).pipe(delay(10)).toPromise();
+      expect(rxStore.has(TEST_PARAM)).toBe(false);
+    });
+  });
+
   describe('getStores',  () => {
     it('should combine the results of both requests', async () => {
       const expectedValues = [
@@ -166,6 +732,289 @@ describe("RxStore", () => {
     });
   });
 
+  describe("dedupeWindowMS", () => {
+    it("joins a sync fetch that just resolved", () => {
+      mockFetcher = jasmine.createSpy().and.returnValue(of(TEST_RESULT));
+      rxStore = new TestStore(mockFetcher, { dedupeWindowMS: 1000 });
+      for (let i = 0; i < 10; i++) {
+        rxStore.getStore(TEST_PARAM, { force: true }).subscribe();
+      }
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("joins an async fetch that is in flight instead of restarting it", async () => {
+      rxStore = new TestStore(mockFetcher, { dedupeWindowMS: 0 });
+      rxStore.getStore(TEST_PARAM).subscribe();
+      for (let i = 0; i < 10; i++) {
+        rxStore.getStore(TEST_PARAM, { force: true }).subscribe();
+      }
+      const emittedValue = await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue.value).toEqual(TEST_RESULT);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("refetches once the window has passed", async () => {
+      rxStore = new TestStore(mockFetcher, { dedupeWindowMS: 50 });
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      rxStore.getStore(TEST_PARAM, { force: true });
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+      await of(undefined).pipe(delay(60)).toPromise();
+      rxStore.getStore(TEST_PARAM, { force: true });
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("refetches after a local update", async () => {
+      rxStore = new TestStore(mockFetcher, { dedupeWindowMS: 1000 });
+      await rxStore.getStore(TEST_PARAM).pipe(storeFilterOutLoading, take(1)).toPromise();
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      rxStore.getStore(TEST_PARAM, { force: true });
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("restarts fetches when not set", () => {
+      rxStore.getStore(TEST_PARAM).subscribe();
+      rxStore.getStore(TEST_PARAM, { force: true });
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("live", () => {
+    let connections: Subject<ITestObj>[];
+    let states: IRxStore<ITestObj, Error>[];
+
+    beforeEach(() => {
+      connections = [];
+      states = [];
+      mockFetcher = jasmine.createSpy().and.callFake(() => {
+        const connection = new Subject<ITestObj>();
+        connections.push(connection);
+        return connection;
+      });
+      rxStore = new TestStore(mockFetcher, {
+        live: { reconnect: { baseDelayMS: 5, jitter: false, maxAttempts: 3 } },
+      });
+      rxStore.getStore(TEST_PARAM).subscribe((state) => states.push(state));
+    });
+
+    const lastState = () => states[states.length - 1];
+
+    it("emits every value of the source while connected", () => {
+      connections[0].next(TEST_RESULT);
+      connections[0].next({ test: "UPDATED" });
+      expect(states.map((state) => [state.loading, state.connected, state.value])).toEqual([
+        [true, false, undefined],
+        [false, true, TEST_RESULT],
+        [false, true, { test: "UPDATED" }],
+      ]);
+      expect(rxStore.getStats().inFlightCount).toEqual(1);
+    });
+
+    it("keeps the last value while reconnecting after an error", async () => {
+      connections[0].next(TEST_RESULT);
+      connections[0].error(new Error("DROPPED"));
+      expect(lastState()).toEqual(jasmine.objectContaining({
+        connected: false,
+        loading: false,
+        nextRetryAt: jasmine.any(Number),
+        reconnecting: true,
+        value: TEST_RESULT,
+      }));
+
+      await of(undefined).pipe(delay(10)).toPromise();
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+      connections[1].next({ test: "UPDATED" });
+      expect(lastState()).toEqual(jasmine.objectContaining({ connected: true, reconnecting: false }));
+    });
+
+    it("reconnects when the source completes", async () => {
+      connections[0].next(TEST_RESULT);
+      connections[0].complete();
+      expect(lastState().reconnecting).toBe(true);
+      await of(undefined).pipe(delay(10)).toPromise();
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives up after maxAttempts consecutive failed connections", async () => {
+      connections[0].error(new Error("DOWN"));
+      await of(undefined).pipe(delay(10)).toPromise();
+      connections[1].error(new Error("DOWN"));
+      await of(undefined).pipe(delay(20)).toPromise();
+      connections[2].error(new Error("DOWN"));
+      expect(mockFetcher).toHaveBeenCalledTimes(3);
+      expect(lastState()).toEqual(jasmine.objectContaining({ connected: false, loading: false, reconnecting: false }));
+    });
+
+    it("reconnects on the next getStore after a local update", () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      expect(lastState()).toEqual(jasmine.objectContaining({ connected: false, value: TEST_RESULT }));
+      rxStore.getStore(TEST_PARAM);
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("sync", () => {
+    const LOCAL_RESULT = { test: "LOCAL_TEST_STRING" };
+    let transport: RxMemorySyncTransport;
+    let otherStore: TestStore;
+
+    beforeEach(() => {
+      transport = new RxMemorySyncTransport();
+      rxStore = new TestStore(mockFetcher, { name: "test", sync: transport });
+      otherStore = new TestStore(mockFetcher, { name: "test", sync: transport });
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      otherStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+    });
+
+    it("propagates value updates to entries held by other instances", () => {
+      rxStore.updateStoreValue(TEST_PARAM, LOCAL_RESULT);
+      rxStore.updateStoreValue("NOT_HELD_ELSEWHERE", LOCAL_RESULT);
+      expect(otherStore.peek(TEST_PARAM).value).toEqual(LOCAL_RESULT);
+      expect(otherStore.has("NOT_HELD_ELSEWHERE")).toBe(false);
+    });
+
+    it("propagates removals and expirations", () => {
+      otherStore.getStore(TEST_PARAM).subscribe();
+      rxStore.expireAll();
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+      rxStore.removeStoreValue(TEST_PARAM);
+      expect(otherStore.peek(TEST_PARAM).hasValue).toBe(false);
+    });
+
+    it("stops sending and applying changes once disconnected", () => {
+      otherStore.disconnectSync();
+      rxStore.updateStoreValue(TEST_PARAM, LOCAL_RESULT);
+      expect(otherStore.peek(TEST_PARAM).value).toEqual(TEST_RESULT);
+      otherStore.updateStoreValue(TEST_PARAM, { test: "DISCONNECTED" });
+      expect(rxStore.peek(TEST_PARAM).value).toEqual(LOCAL_RESULT);
+    });
+
+    it("propagates settled mutations", async () => {
+      const commit = new Subject<ITestObj>();
+      const result = rxStore.mutate(TEST_PARAM, LOCAL_RESULT, commit).toPromise();
+      expect(otherStore.peek(TEST_PARAM).value).toEqual(TEST_RESULT);
+      commit.next(LOCAL_RESULT);
+      commit.complete();
+      await result;
+      expect(otherStore.peek(TEST_PARAM).value).toEqual(LOCAL_RESULT);
+    });
+
+    it("ignores messages older than the entry", () => {
+      transport.postMessage({
+        key: TEST_PARAM,
+        params: TEST_PARAM,
+        senderId: "stale-sender",
+        storeName: "test",
+        type: "update",
+        value: LOCAL_RESULT,
+        version: 1,
+      });
+      expect(rxStore.peek(TEST_PARAM).value).toEqual(TEST_RESULT);
+    });
+
+    it("ignores stores with a different name", () => {
+      const unrelatedStore = new TestStore(mockFetcher, { name: "unrelated", sync: transport });
+      unrelatedStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      rxStore.updateStoreValue(TEST_PARAM, LOCAL_RESULT);
+      expect(unrelatedStore.peek(TEST_PARAM).value).toEqual(TEST_RESULT);
+    });
+
+    it("requires a name", () => {
+      expect(() => new TestStore(mockFetcher, { sync: transport })).toThrowError(/name/);
+    });
+  });
+
+  describe("hasValue / removeStoreValue", () => {
+    let nullableStore: RxStore<number | null, string>;
+
+    beforeEach(() => {
+      nullableStore = new RxStore<number | null, string>(() => toDelayedOb(null), (err) => err);
+    });
+
+    it("treats a fetched null as a value", async () => {
+      nullableStore.updateStoreValue(TEST_PARAM, 1);
+      nullableStore.getStore(TEST_PARAM).subscribe();
+      const emittedValue = await nullableStore.getStore(TEST_PARAM, { force: true })
+        .pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue).toEqual(jasmine.objectContaining({ hasValue: true, value: null }));
+    });
+
+    it("emits falsy local values", () => {
+      const emittedValues = [];
+      nullableStore.updateStoreValue(TEST_PARAM, 1);
+      nullableStore.getStore(TEST_PARAM).subscribe((store) => emittedValues.push(store.value));
+      nullableStore.updateStoreValue(TEST_PARAM, 0);
+      nullableStore.updateStoreValue(TEST_PARAM, null);
+      expect(emittedValues).toEqual([1, 0, null]);
+    });
+
+    it("removes the value without refetching", () => {
+      const emittedValues = [];
+      nullableStore.updateStoreValue(TEST_PARAM, 1);
+      nullableStore.getStore(TEST_PARAM).subscribe((store) => emittedValues.push(store));
+      nullableStore.removeStoreValue(TEST_PARAM);
+      nullableStore.getStore(TEST_PARAM).subscribe();
+      expect(emittedValues[1]).toEqual(jasmine.objectContaining({ hasValue: false, loading: false, value: undefined }));
+      expect(emittedValues.length).toEqual(2);
+      expect(nullableStore.dehydrate()).toEqual({});
+    });
+
+    it("rolls a failed mutation back to having no value", async () => {
+      nullableStore.getStore(TEST_PARAM).subscribe();
+      const result = await nullableStore.mutate(TEST_PARAM, 1, throwError(new Error("NOPE"))).toPromise();
+      expect(result).toEqual(jasmine.objectContaining({ hasValue: false, value: undefined }));
+    });
+  });
+
+  describe("getStoresMap", () => {
+    let countStore: RxStore<number, string, void, string>;
+
+    beforeEach(() => {
+      countStore = new RxStore<number, string, void, string>(
+        (param) => param === "FAIL" ? toDelayedOb(undefined).pipe(concatMap(() => throwError(new Error("NOPE")))) :
+          param === "SLOW" ? of(0).pipe(delay(200)) : toDelayedOb(0),
+        (err) => err.message,
+      );
+    });
+
+    it("keys the results by param and keeps falsy values", async () => {
+      const emittedValue = await countStore.getStoresMap(["A", "FAIL"])
+        .pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue.items.map((item) => [item.params, item.store.value, item.store.error]))
+        .toEqual([["A", 0, undefined], ["FAIL", undefined, "NOPE"]]);
+      expect(emittedValue.stores.A.value).toBe(0);
+      expect(emittedValue.errors).toEqual(["NOPE"]);
+    });
+
+    it("settles with the first error in failFast mode", async () => {
+      const emittedValue = await countStore.getStoresMap(["SLOW", "FAIL"], { mode: "failFast" })
+        .pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue.errors).toEqual(["NOPE"]);
+      expect(emittedValue.stores.SLOW.loading).toBe(true);
+    });
+
+    it("waits for every item in allSettled mode", async () => {
+      const emittedValue = await countStore.getStoresMap(["SLOW", "FAIL"])
+        .pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue.stores.SLOW.value).toBe(0);
+      expect(emittedValue.errors).toEqual(["NOPE"]);
+    });
+
+    it("leaves failed items out in ignoreErrors mode", async () => {
+      const emittedValue = await countStore.getStoresMap(["A", "FAIL"], { mode: "ignoreErrors" })
+        .pipe(storeFilterOutLoading, take(1)).toPromise();
+      expect(emittedValue.items.map((item) => item.params)).toEqual(["A"]);
+      expect(emittedValue.errors).toEqual([]);
+    });
+
+    it("emits on every item update", async () => {
+      countStore.updateStoreValue("A", 1);
+      const emittedValues = [];
+      countStore.getStoresMap(["A"]).subscribe((stores) => emittedValues.push(stores.stores.A.value));
+      countStore.updateStoreValue("A", 2);
+      expect(emittedValues).toEqual([1, 2]);
+    });
+  });
+
   describe("expireAll", () => {
     it("refetches all live subscriptions", () => {
       rxStore.getStore(TEST_PARAM).subscribe();
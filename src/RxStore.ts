@@ -1,33 +1,110 @@
-import { combineLatest, Observable, of, ReplaySubject } from "rxjs";
+import {
+  asyncScheduler,
+  AsyncSubject,
+  combineLatest,
+  concat,
+  defer,
+  EMPTY,
+  forkJoin,
+  Observable,
+  of,
+  ReplaySubject,
+  SchedulerLike,
+  Subject,
+  Subscription,
+  timer,
+} from "rxjs";
 
 import {
   catchError,
-  distinctUntilKeyChanged,
+  defaultIfEmpty,
+  distinctUntilChanged,
+  first,
   flatMap,
   map,
-  pairwise,
+  scan,
   shareReplay,
-  startWith,
   switchMap,
+  takeLast,
+  tap,
 } from "rxjs/operators";
 
 import { nodeObjectSorter } from "./NodeObjectSorter";
+import { abortable, IRxAbortSignal } from "./RxAbortController";
+import { RxEntityCache } from "./RxEntityCache";
+import { applyMiddleware, getGlobalMiddleware, TRxMiddleware } from "./RxMiddleware";
+import { IRxStorageAdapter } from "./RxStorageAdapter";
+import { IRxStoreStats, TRxStoreEvent } from "./RxStoreEvents";
+import { RxStoreHandle } from "./RxStoreHandle";
+import { IRxSyncMessage, IRxSyncTransport } from "./RxSyncTransport";
 import { SubscriberMonitor } from "./SubscriberMonitor";
 
+// A state pushed through `updateValueRS`. Unless it `hasValue` the previous value is kept, `clearValue` drops it.
+interface IRxStoreUpdate<T, TError> extends IRxStore<T, TError> {
+  clearValue?: boolean;
+}
+
+// `fetch` (re)fetches the value from the network, `set` emits a local state
+type TRxStoreAction<T, TError> = { type: "fetch" } | { type: "set"; state: IRxStoreUpdate<T, TError> };
+
+interface IRxStoreEntry<T, Params, TError> {
+  key: string;
+  observable: Observable<IRxStore<T, TError>>;
+  updateValueRS: ReplaySubject<TRxStoreAction<T, TError>>;
+  lastFetchFailed: boolean;
+  params: Params;
+  fetching: boolean;
+  // Set when an in-flight fetch was cancelled, the next `getStore` fetches again
+  fetchCancelled: boolean;
+  fetchedAt?: number;
+  // When the last successful fetch resolved, reset by local updates
+  lastFetchSucceededAt?: number;
+  // The last value fetched or set locally, regardless of whether anyone is subscribed
+  value?: T;
+  hasValue: boolean;
+  // Optimistic values that are waiting on their commit, in the order they were applied
+  pendingMutations: { value: T; sequence: number }[];
+  // The value to roll back to when pending mutations are rejected, undefined when there was no value
+  confirmed?: { value: T };
+  // The sequence of the mutation `confirmed` was committed by, pending mutations applied before it are superseded
+  confirmedSequence: number;
+  // Set when a pending mutation replaced an in-flight fetch, the entry is fetched again if it is rolled back
+  mutationInterruptedFetch: boolean;
+  subscriberCount: number;
+  // The version of the last local or synced change to the entry, see `IRxSyncMessage`
+  syncVersion?: number;
+  syncSenderId?: string;
+  // Tags attached through `updateStoreValue`, on top of the ones from the `tags` config
+  tags: Set<string>;
+  // The ids of the entities in the value that are held in `entity.cache`
+  entityIds: string[];
+  // The last state emitted by `observable`, undefined until it is first subscribed to
+  state?: IRxStore<T, TError>;
+  // The result of `sizeOf` for the current value
+  size: number;
+  clearFromStorageTimer?: Subscription;
+}
+
 interface IRxStoreMap<T, Params, TError> {
-  [id: string]: {
-    observable: Observable<IRxStore<T, TError>>;
-    updateValueRS: ReplaySubject<IRxStore<T, TError>>;
-    lastFetchFailed: boolean;
-    params: Params;
-    clearFromStorageTimer?: ReturnType<typeof setTimeout>;
-  };
+  [id: string]: IRxStoreEntry<T, Params, TError>;
 }
 
 export interface IRxStore<T, TError> {
   loading: boolean;
   value: undefined | T;
+  // False until a value has been fetched or set, falsy values (0, "", false, null) are values like any other
+  hasValue: boolean;
   error?: TError;
+  // When the current value was fetched (or set locally), in ms since epoch
+  fetchedAt?: number;
+  // True when the current value is older than `staleTimeMS`
+  isStale: boolean;
+  // How many times a failed fetch has been retried, and when the next retry happens (ms since epoch)
+  retryCount?: number;
+  nextRetryAt?: number;
+  // Only set by live stores: whether the source is connected, and whether it is waiting to reconnect
+  connected?: boolean;
+  reconnecting?: boolean;
 }
 
 export interface IRxStores<T, TError> {
@@ -36,29 +113,190 @@ export interface IRxStores<T, TError> {
   error: TError[];
 }
 
+// failFast: settles (loading: false) with the first error as soon as any item fails
+// allSettled: stays loading until every item has settled, every error is reported
+// ignoreErrors: failed items are left out and don't hold up loading
+export type TRxStoresAggregationMode = "failFast" | "allSettled" | "ignoreErrors";
+
+export interface IRxStoresMapItem<T, Params, TError> {
+  key: string;
+  params: Params;
+  store: IRxStore<T, TError>;
+}
+
+export interface IRxStoresMap<T, Params, TError> {
+  loading: boolean;
+  // In the order of the requested params
+  items: IRxStoresMapItem<T, Params, TError>[];
+  // Keyed by the `paramHasher` key of each param
+  stores: { [key: string]: IRxStore<T, TError> };
+  errors: TError[];
+}
+
+export interface IRxStoresMapOptions<Extra> extends IRxStoreOptions<Extra> {
+  // Defaults to allSettled
+  mode?: TRxStoresAggregationMode;
+}
+
+export interface IRxStoreInspectedEntry<T, Params, TError> {
+  key: string;
+  params: Params;
+  state: IRxStore<T, TError>;
+}
+
+export interface IRxStoreInspectionSnapshot<T, Params, TError> {
+  [key: string]: IRxStore<T, TError> & {
+    params: Params;
+    fetching: boolean;
+    subscriberCount: number;
+  };
+}
+
 export interface IRxStoreOptions<Extra> {
   force?: boolean;
   extra?: Extra;
+  // Overrides the store wide `staleTimeMS` for this call
+  staleTimeMS?: number;
+}
+
+export interface IRxStoreRetryPolicy<TError> {
+  // Total number of fetch attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, doubled for every subsequent retry (defaults to 1000)
+  baseDelayMS?: number;
+  // Upper bound for the delay between retries (defaults to 30000)
+  maxDelayMS?: number;
+  // Randomises each delay between 50% and 100% of its value so clients don't retry in lockstep (defaults to true)
+  jitter?: boolean;
+  // Decides which errors are worth retrying, all errors are retried when not provided
+  shouldRetry?: (error: TError, retryCount: number) => boolean;
+}
+
+export interface IRxStoreLiveConfig<TError> {
+  // Applies to consecutive failed connections, the count starts over once a connection emits a value.
+  // Defaults to reconnecting forever, backing off from 1s to 30s.
+  reconnect?: IRxStoreRetryPolicy<TError>;
+}
+
+// The entity type of a store whose values are entities or arrays of entities
+export type TRxEntityOf<T> = T extends (infer E)[] ? E : T;
+
+export interface IRxStoreEntityConfig<E> {
+  cache: RxEntityCache;
+  // Stores that share a cache and a type share their entities, i.e a product store and a products by category store
+  type: string;
+  getId: (entity: E) => string;
+}
+
+export interface IRxStorePersistConfig {
+  adapter: IRxStorageAdapter;
+  // Persisted entries written with a different version (i.e an older format of `T`) are discarded
+  version?: string | number;
+}
+
+export interface IRxStoreConfig<T, Params, Extra = void, TError = Error> {
+  // When set, entries are deleted from the cache this long after their last subscriber unsubscribes
+  deleteFromCacheTimeMS?: number;
+  // Hashes params into cache keys, defaults to `nodeObjectSorter`
+  paramHasher?: TParamHasher<Params>;
+  // Identifies the store, used to namespace its persisted entries when several stores share an adapter
+  name?: string;
+  // Once a value is older than this the next `getStore` serves it with `loading: true` and refetches it
+  staleTimeMS?: number;
+  retry?: IRxStoreRetryPolicy<TError>;
+  // Writes resolved values through to the adapter and hydrates entries from it
+  persist?: IRxStorePersistConfig;
+  // Bounds the cache, the least recently used entries without subscribers are evicted first
+  maxEntries?: number;
+  // Bounds the total of `sizeOf` across all entries
+  maxSize?: number;
+  sizeOf?: (value: T, params: Params) => number;
+  onEvict?: (params: Params, value: T | undefined) => void;
+  // Cancels (and aborts the signal of) an in-flight fetch once its last subscriber unsubscribes
+  cancelUnobservedFetches?: boolean;
+  // `force` refetches join a fetch that is in flight or that succeeded less than this long ago instead of
+  // restarting it, 0 only joins fetches in flight
+  dedupeWindowMS?: number;
+  // For fetchers that return long lived streams (i.e a WebSocket or SSE), see `IRxStoreLiveConfig`
+  live?: boolean | IRxStoreLiveConfig<TError>;
+  // Shares `updateStoreValue`, `mutate`, `removeStoreValue` and expiry with other instances of the store (same
+  // `name`) that use the same transport, i.e in other tabs
+  sync?: IRxSyncTransport;
+  // Used for every timer and timestamp, i.e pass a `TestScheduler` for marble tests. Defaults to `asyncScheduler`.
+  scheduler?: SchedulerLike;
+  // Tags for `expireTags`/`RxStoreGroup.invalidateTags`, either the same for every entry or derived from its value
+  tags?: string[] | ((value: T, params: Params) => string[]);
+  // Normalizes values into a shared `RxEntityCache`, a value is either an entity or an array of entities
+  entity?: IRxStoreEntityConfig<TRxEntityOf<T>>;
+  // Runs around every fetch, the first middleware is the outermost. See `TRxMiddleware`.
+  middleware?: TRxMiddleware<T, Params, Extra>[];
+}
+
+export interface IRxPersistedEntry<T, Params> {
+  version?: string | number;
+  params: Params;
+  value: T;
+  fetchedAt: number;
 }
 
+export interface IRxStoreSnapshot<T, Params> {
+  [key: string]: IRxPersistedEntry<T, Params>;
+}
+
+// `signal` is aborted when the fetch is cancelled before it completes
 export type TFetcherWithAnExtra<T, Params, Extra> = (
   params: Params,
   extra?: Extra,
+  signal?: IRxAbortSignal,
 ) => Observable<T>;
 export type TFetcher<T, Params> = (params: Params) => Observable<T>;
 export type TParamHasher<Params> = (params: Params) => string;
 
 export class RxStore<T, Params, Extra = void, TError = Error> {
+  // Emits what the store is doing (cache hits, fetches, expiry and eviction), i.e for metrics or devtools
+  public readonly events$: Observable<TRxStoreEvent<T, Params, TError>>;
   protected store: IRxStoreMap<T, Params, TError> = {};
+  // Keys in least to most recently used order
+  private recentlyUsed = new Set<string>();
+  private totalSize = 0;
+  private eventSubject = new Subject<TRxStoreEvent<T, Params, TError>>();
+  private handles: { [key: string]: RxStoreHandle<T, TError> } = {};
+  private hitCount = 0;
+  private missCount = 0;
+  // Set while entries are handed out that the caller hasn't had the chance to subscribe to yet
+  private evictionSuspended = false;
+  // Orders mutations by when they were applied, see `mutate`
+  private mutationSequence = 0;
+  private syncSenderId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  // Set while applying a synced change so it isn't sent back out
+  private applyingSync = false;
+  // Stops listening to `config.sync`, undefined when the store isn't synced (or has been disconnected)
+  private unsubscribeSync?: () => void;
 
   constructor(
     private readonly fetcher:
       | TFetcher<T, Params>
       | TFetcherWithAnExtra<T, Params, Extra>,
     protected readonly errorParserLogger: (err: Error) => TError,
-    private deleteFromCacheTimeMS?: number,
-    private paramHasher: TParamHasher<Params> = nodeObjectSorter,
-  ) { }
+    protected readonly config: IRxStoreConfig<T, Params, Extra, TError> = {},
+  ) {
+    this.events$ = this.eventSubject.asObservable();
+    if (config.sync) {
+      if (!config.name) {
+        throw new Error("RxStore: a `name` is required to sync stores");
+      }
+      this.unsubscribeSync = config.sync.subscribe((message) => this.applySyncMessage(message));
+    }
+  }
+
+  // Detaches the store from `config.sync`: it stops sending and applying changes, and the transport no longer holds
+  // a reference to it
+  public disconnectSync(): void {
+    if (this.unsubscribeSync) {
+      this.unsubscribeSync();
+      this.unsubscribeSync = undefined;
+    }
+  }
 
   public getStore(
     params: Params,
@@ -67,6 +305,27 @@ export class RxStore<T, Params, Extra = void, TError = Error> {
     return this._getStore(params, options);
   }
 
+  // The same handle is returned for a key while it has an entry (handles are dropped with their entry, so handles
+  // that are only ever read don't pile up), `options` are those of the call that created it
+  public handle(params: Params, options: IRxStoreOptions<Extra> = { force: false }): RxStoreHandle<T, TError> {
+    const key = this.getKey(params, options.extra);
+    if (this.handles[key]) {
+      return this.handles[key];
+    }
+    const handle = new RxStoreHandle(
+      () => {
+        const observable = this.getStore(params, options);
+        this.handles[key] = this.handles[key] || handle;
+        return observable;
+      },
+      () => this.store[key] && this.getState(this.store[key]),
+    );
+    if (this.store[key]) {
+      this.handles[key] = handle;
+    }
+    return handle;
+  }
+
   public getStores(
     params: Params[],
     options: IRxStoreOptions<Extra> = { force: false },
@@ -74,28 +333,238 @@ export class RxStore<T, Params, Extra = void, TError = Error> {
     if (!params.length) {
       return of({ loading: false, value: [], error: [] });
     }
-    return combineLatest(
-      params.map((param) => this._getStore(param, options)),
-    ).pipe(
+    return this.combineStores(params, options).pipe(
       map((storeOutput) => {
         const anyLoading = storeOutput
           .map((store) => store.loading)
           .some((loading) => loading === true);
-        const values = storeOutput.map((store) => store.value).filter(Boolean);
+        const values = storeOutput.filter((store) => store.hasValue).map((store) => store.value);
         const errors = storeOutput.map((store) => store.error).filter(Boolean);
         return { loading: anyLoading, value: values, error: errors };
       }),
-      distinctUntilKeyChanged("loading"),
+      // Only changes of `loading` are emitted, and for normalized stores values with an updated entity
+      distinctUntilChanged((previous, current) => previous.loading === current.loading && (!this.config.entity ||
+        (previous.value.length === current.value.length &&
+          previous.value.every((value, index) => value === current.value[index])))),
     );
   }
 
-  public updateStoreValue(params: Params, value: T): void {
-    this.init(params);
-    this.store[this.getKey(params)].updateValueRS.next({
-      error: undefined,
-      loading: false,
-      value,
+  // Like `getStores` but keeps every item (falsy values and errors included) alongside its params, and emits on
+  // every item update
+  public getStoresMap(
+    params: Params[],
+    options: IRxStoresMapOptions<Extra> = { force: false },
+  ): Observable<IRxStoresMap<T, Params, TError>> {
+    if (!params.length) {
+      return of({ errors: [], items: [], loading: false, stores: {} });
+    }
+    const { mode = "allSettled" } = options;
+    return this.combineStores(params, options).pipe(
+      map((storeOutput) => {
+        const allItems = storeOutput.map((store, i) => ({
+          key: this.getKey(params[i], options.extra),
+          params: params[i],
+          store,
+        }));
+        // Items that are retrying keep their error while loading, they haven't failed yet
+        const hasFailed = (item: IRxStoresMapItem<T, Params, TError>) =>
+          !item.store.loading && item.store.error !== undefined;
+        const failedItems = allItems.filter(hasFailed);
+        const items = mode === "ignoreErrors" ? allItems.filter((item) => !hasFailed(item)) : allItems;
+        const stores: IRxStoresMap<T, Params, TError>["stores"] = {};
+        items.forEach((item) => stores[item.key] = item.store);
+        if (mode === "failFast" && failedItems.length) {
+          return { errors: [failedItems[0].store.error], items, loading: false, stores };
+        }
+        return {
+          errors: mode === "ignoreErrors" ? [] : failedItems.map((item) => item.store.error),
+          items,
+          loading: items.some((item) => item.store.loading),
+          stores,
+        };
+      }),
+    );
+  }
+
+  // Fetches `params` into the cache without having to hold a subscription, i.e on hover or in a route resolver.
+  // Resolves once every value has settled (errors included), each entry is then treated as if a short lived
+  // subscriber had come and gone so `deleteFromCacheTimeMS` and eviction still apply.
+  // N.B `params` is treated as a list of params whenever it is an array
+  public prefetch(params: Params | Params[], options: IRxStoreOptions<Extra> = { force: false }): Promise<void> {
+    const paramsList = Array.isArray(params) ? params : [params];
+    // Every fetch is started synchronously so `RxBatchingStore` can send them as one batch
+    const settled = this.withoutEviction(() => forkJoin(
+      paramsList.map((param) => this._getStore(param, options).pipe(first((state) => !state.loading))),
+    ).pipe(map(() => undefined)).toPromise());
+    this.evict();
+    return settled;
+  }
+
+  // `tags` stay attached to the entry (i.e across refetches) along with the ones from the `tags` config
+  public updateStoreValue(params: Params, value: T, tags: string[] = [], extra?: Extra): void {
+    const store = this.init(params, extra);
+    tags.forEach((tag) => store.tags.add(tag));
+    this.setStoreValue(store, value);
+    this.sendSyncMessage(store, "update", value);
+  }
+
+  // Drops the value of `params` (i.e the entity was deleted), the store emits `hasValue: false` and is not refetched
+  // until it is expired. Any in-flight fetch is abandoned.
+  public removeStoreValue(params: Params, extra?: Extra): void {
+    const store = this.store[this.getKey(params, extra)];
+    if (store) {
+      this.clearStoreValue(store);
+      this.sendSyncMessage(store, "remove");
+    }
+  }
+
+  // Applies `optimisticValue` straight away and replaces it with the last value of `commit$` once it completes.
+  // If `commit$` errors the value is rolled back and the error is emitted on the store.
+  public mutate(
+    params: Params,
+    optimisticValue: T,
+    commit$: Observable<T>,
+    extra?: Extra,
+  ): Observable<IRxStore<T, TError>> {
+    const store = this.init(params, extra);
+    if (!store.pendingMutations.length) {
+      store.confirmed = store.hasValue ? { value: store.value } : undefined;
+      store.mutationInterruptedFetch = false;
+    }
+    store.mutationInterruptedFetch = store.mutationInterruptedFetch || store.fetching;
+    const mutation = { sequence: ++this.mutationSequence, value: optimisticValue };
+    store.pendingMutations.push(mutation);
+    this.setStoreValue(store, optimisticValue);
+
+    const result = new AsyncSubject<IRxStore<T, TError>>();
+    // Overlapping mutations settle in any order, the store always shows the most recently applied optimistic
+    // value that is still pending and newer than the last commit, falling back to the newest committed value
+    const settle = (rejected: boolean, error?: TError) => {
+      store.pendingMutations = store.pendingMutations.filter((pending) => pending !== mutation);
+      const latestPending = store.pendingMutations
+        .filter((pending) => pending.sequence > store.confirmedSequence)
+        .pop();
+      const settledTo = latestPending || store.confirmed;
+      // A rollback to no value, or to the value of a fetch that never resolved, is fetched again by the next getStore
+      if (rejected && !latestPending && (!settledTo || store.mutationInterruptedFetch)) {
+        store.fetchCancelled = true;
+      }
+      result.next(settledTo ? this.setStoreValue(store, settledTo.value, error) : this.clearStoreValue(store, error));
+      // Other instances only see settled values, never optimistic ones
+      if (!store.pendingMutations.length) {
+        this.sendSyncMessage(store, settledTo ? "update" : "remove", settledTo && settledTo.value);
+      }
+      result.complete();
+    };
+    commit$.pipe(takeLast(1), defaultIfEmpty(optimisticValue)).subscribe(
+      (committedValue) => {
+        // A commit that resolves after a newer one doesn't replace it
+        if (mutation.sequence > store.confirmedSequence) {
+          store.confirmed = { value: committedValue };
+          store.confirmedSequence = mutation.sequence;
+        }
+        settle(false);
+      },
+      (err: Error) => settle(true, this.errorParserLogger(err)),
+    );
+    return result.asObservable();
+  }
+
+  // Serialises every resolved value in the store, i.e to embed a server rendered cache in the page
+  public dehydrate(): IRxStoreSnapshot<T, Params> {
+    const snapshot: IRxStoreSnapshot<T, Params> = {};
+    Object.keys(this.store).forEach((key) => {
+      const store = this.store[key];
+      if (store.hasValue && !store.lastFetchFailed) {
+        snapshot[key] = this.toPersistedEntry(store);
+      }
     });
+    return snapshot;
+  }
+
+  // Restores values from `dehydrate`, entries written with a different persist version are ignored. Entries are
+  // restored under their snapshot key, so partitioned entries keep their partition.
+  public hydrate(snapshot: IRxStoreSnapshot<T, Params>): void {
+    Object.keys(snapshot).forEach((key) => {
+      const entry = snapshot[key];
+      if (this.isCurrentVersion(entry)) {
+        this.setStoreValue(this.init(entry.params, undefined, key), entry.value, undefined, entry.fetchedAt);
+      }
+    });
+  }
+
+  // The cache keys of every entry in the store
+  public keys(): string[] {
+    return Object.keys(this.store);
+  }
+
+  // `extra` picks the partition of stores that partition their entries by it (see `batchKey` in `RxBatchingStore`),
+  // the same goes for the `extra` of `peek`, `cancel`, `updateStoreValue`, `removeStoreValue` and `mutate`
+  public has(params: Params, extra?: Extra): boolean {
+    return !!this.store[this.getKey(params, extra)];
+  }
+
+  // The current state of the entry for `params`, without subscribing to it or triggering a fetch
+  public peek(params: Params, extra?: Extra): IRxStore<T, TError> | undefined {
+    const store = this.store[this.getKey(params, extra)];
+    return store && this.getState(store);
+  }
+
+  public entries(): IRxStoreInspectedEntry<T, Params, TError>[] {
+    return Object.keys(this.store).map((key) => {
+      const store = this.store[key];
+      return { key, params: store.params, state: this.getState(store) };
+    });
+  }
+
+  // A plain object describing every entry, i.e to log or send to devtools. Use `dehydrate` to persist the cache.
+  public snapshot(): IRxStoreInspectionSnapshot<T, Params, TError> {
+    const snapshot: IRxStoreInspectionSnapshot<T, Params, TError> = {};
+    Object.keys(this.store).forEach((key) => {
+      const store = this.store[key];
+      snapshot[key] = {
+        ...this.getState(store),
+        fetching: store.fetching,
+        params: store.params,
+        subscriberCount: store.subscriberCount,
+      };
+    });
+    return snapshot;
+  }
+
+  // Cancels the in-flight fetch for `params` (if any), its signal is aborted and the value it would have replaced
+  // is kept. The next `getStore` fetches again.
+  public cancel(params: Params, extra?: Extra): void {
+    const store = this.store[this.getKey(params, extra)];
+    if (store && store.fetching) {
+      this.cancelFetch(store);
+    }
+  }
+
+  public getStats(): IRxStoreStats {
+    const entries: IRxStoreStats["entries"] = {};
+    let inFlightCount = 0;
+    let subscriberCount = 0;
+    Object.keys(this.store).forEach((key) => {
+      const store = this.store[key];
+      entries[key] = {
+        fetching: store.fetching,
+        pendingDeletion: store.clearFromStorageTimer !== undefined,
+        subscriberCount: store.subscriberCount,
+      };
+      inFlightCount += store.fetching ? 1 : 0;
+      subscriberCount += store.subscriberCount;
+    });
+    const lookups = this.hitCount + this.missCount;
+    return {
+      entries,
+      entryCount: Object.keys(entries).length,
+      hitCount: this.hitCount,
+      hitRatio: lookups ? this.hitCount / lookups : 0,
+      inFlightCount,
+      missCount: this.missCount,
+      subscriberCount,
+    };
   }
 
   public expireAll(): void {
@@ -104,6 +573,16 @@ export class RxStore<T, Params, Extra = void, TError = Error> {
     });
   }
 
+  // Expires every entry tagged with any of `tags`
+  public expireTags(tags: string[]): void {
+    Object.keys(this.store).forEach((key) => {
+      const matches = this.getTags(this.store[key]).some((tag) => tags.indexOf(tag) !== -1);
+      if (matches) {
+        this.expireKey(key);
+      }
+    });
+  }
+
   public expireWhere(predicate: (params: Params) => boolean): void {
     Object.keys(this.store).forEach((key) => {
       const matches = predicate(this.store[key].params);
@@ -113,67 +592,567 @@ export class RxStore<T, Params, Extra = void, TError = Error> {
     });
   }
 
-  private _getStore(
+  protected _getStore(
     params: Params,
     options: IRxStoreOptions<Extra> = { force: false },
   ): Observable<IRxStore<T, TError>> {
-    this.init(params, options.extra);
-    const key = this.getKey(params);
+    const isCached = !!this.store[this.getKey(params, options.extra)];
+    const store = this.init(params, options.extra);
+    const staleTimeMS = options.staleTimeMS !== undefined ? options.staleTimeMS : this.config.staleTimeMS;
+
+    // A refetch that is already in flight is left alone rather than restarted
+    const isStale = !store.fetching && this.isStale(store.fetchedAt, staleTimeMS);
+
+    const force = options.force && !this.isDeduped(store);
+
+    // A live entry whose connection was given up on or replaced by a local update reconnects
+    const isDisconnected = !!this.config.live && !store.fetching && store.subscriberCount > 0;
+
+    if (force || store.lastFetchFailed || store.fetchCancelled || isStale || isDisconnected) {
+      this.missCount++;
+      store.updateValueRS.next({ type: "fetch" });
+    } else if (!isCached && store.fetchedAt === undefined) {
+      // A new entry, its fetch starts with the first subscriber
+      this.missCount++;
+    } else {
+      this.hitCount++;
+      this.emitEvent({ key: store.key, params, timestamp: this.now(), type: "cacheHit" });
+    }
 
-    if (options.force || this.store[key].lastFetchFailed) {
-      this.store[key].updateValueRS.next(undefined);
+    return store.observable;
+  }
+
+  // The entries of several params are handed out together, so none are evicted before the caller subscribes to them
+  private combineStores(params: Params[], options: IRxStoreOptions<Extra>): Observable<IRxStore<T, TError>[]> {
+    const combined = combineLatest(this.withoutEviction(() => params.map((param) => this._getStore(param, options))));
+    return new Observable<IRxStore<T, TError>[]>((subscriber) => {
+      const subscription = this.withoutEviction(() => combined.subscribe(subscriber));
+      this.evict();
+      return subscription;
+    });
+  }
+
+  // Eviction is caught up on by the next `evict` once `getResult` has run
+  private withoutEviction<R>(getResult: () => R): R {
+    this.evictionSuspended = true;
+    try {
+      return getResult();
+    } finally {
+      this.evictionSuspended = false;
     }
+  }
 
-    return this.store[key].observable;
+  private cancelFetch(store: IRxStoreEntry<T, Params, TError>): void {
+    store.fetchCancelled = true;
+    // Switching to a local value unsubscribes from the fetch, the previous value is merged back in
+    store.updateValueRS.next({
+      state: { hasValue: false, isStale: false, loading: false, value: undefined },
+      type: "set",
+    });
   }
 
-  private expireKey(key: string): void {
-    this.store[key].updateValueRS.next(undefined);
+  protected expireKey(key: string): void {
+    const store = this.store[key];
+    this.emitEvent({ key, params: store.params, timestamp: this.now(), type: "expire" });
+    this.sendSyncMessage(store, "expire");
+    store.updateValueRS.next({ type: "fetch" });
   }
 
-  private getKey(params: Params): string {
-    return this.paramHasher(params);
+  protected emitEvent(event: TRxStoreEvent<T, Params, TError>): void {
+    this.eventSubject.next(event);
   }
 
-  private init(params: Params, extra?: Extra): void {
-    const key = this.getKey(params);
-    if (this.store[key]) {
+  protected getScheduler(): SchedulerLike {
+    return this.config.scheduler || asyncScheduler;
+  }
+
+  protected now(): number {
+    return this.getScheduler().now();
+  }
+
+  // Entries are keyed by their params, and by the partition of their `extra` when the store is partitioned
+  protected getKey(params: Params, extra?: Extra): string {
+    const hash = this.hashParams(params);
+    const partition = this.getPartition(params, extra);
+    return partition ? JSON.stringify([partition, hash]) : hash;
+  }
+
+  protected hashParams(params: Params): string {
+    const { paramHasher = nodeObjectSorter } = this.config;
+    return paramHasher(params);
+  }
+
+  // Overridden by stores whose values depend on `extra` (see `batchKey` in `RxBatchingStore`), entries with
+  // different partitions are cached separately
+  protected getPartition(params: Params, extra?: Extra): string {
+    return "";
+  }
+
+  // The global middleware followed by the store's own, overridden by stores that fetch through something else
+  protected getMiddleware(): TRxMiddleware<T, Params, Extra>[] {
+    // Global middleware is written for stores of any type
+    const globalMiddleware = getGlobalMiddleware() as TRxMiddleware<T, Params, Extra>[];
+    return [...globalMiddleware, ...(this.config.middleware || [])];
+  }
+
+  // Entries that have never been subscribed to haven't emitted yet, their state is built from the entry itself
+  private getState(store: IRxStoreEntry<T, Params, TError>): IRxStore<T, TError> {
+    const state = store.state || {
+      fetchedAt: store.fetchedAt,
+      hasValue: store.hasValue,
+      isStale: false,
+      loading: false,
+      value: store.value,
+    };
+    return { ...state, isStale: this.isStale(state.fetchedAt) };
+  }
+
+  private sendSyncMessage(store: IRxStoreEntry<T, Params, TError>, type: IRxSyncMessage["type"], value?: T): void {
+    const { name, sync } = this.config;
+    if (!sync || !this.unsubscribeSync || this.applyingSync) {
+      return;
+    }
+    // Versions are timestamps, bumped past the entry's current version when clocks are behind
+    store.syncVersion = Math.max(this.now(), (store.syncVersion || 0) + 1);
+    store.syncSenderId = this.syncSenderId;
+    sync.postMessage({
+      key: store.key,
+      params: store.params,
+      senderId: this.syncSenderId,
+      storeName: name,
+      type,
+      value,
+      version: store.syncVersion,
+    });
+  }
+
+  // Only entries this instance already holds are updated, the cache isn't grown by other instances
+  private applySyncMessage(message: IRxSyncMessage): void {
+    const store = this.store[message.key];
+    if (message.storeName !== this.config.name || message.senderId === this.syncSenderId || !store) {
       return;
     }
-    const updateValueRS = new ReplaySubject<IRxStore<T, TError>>(1);
-    const networkFetchOb = new Observable<Observable<IRxStore<T, TError>>>(
+    const isNewer = store.syncVersion === undefined || message.version > store.syncVersion ||
+      (message.version === store.syncVersion && message.senderId > store.syncSenderId);
+    if (!isNewer) {
+      return;
+    }
+    store.syncVersion = message.version;
+    store.syncSenderId = message.senderId;
+    this.applyingSync = true;
+    try {
+      if (message.type === "update") {
+        this.setStoreValue(store, message.value as T);
+      } else if (message.type === "remove") {
+        this.clearStoreValue(store);
+      } else {
+        this.expireKey(message.key);
+      }
+    } finally {
+      this.applyingSync = false;
+    }
+  }
+
+  private getTags(store: IRxStoreEntry<T, Params, TError>): string[] {
+    const { tags = [] } = this.config;
+    if (typeof tags !== "function") {
+      return [...tags, ...store.tags];
+    }
+    return store.hasValue ? [...tags(store.value, store.params), ...store.tags] : [...store.tags];
+  }
+
+  private isDeduped(store: IRxStoreEntry<T, Params, TError>): boolean {
+    const { dedupeWindowMS } = this.config;
+    if (dedupeWindowMS === undefined) {
+      return false;
+    }
+    return store.fetching ||
+      (store.lastFetchSucceededAt !== undefined && this.now() - store.lastFetchSucceededAt < dedupeWindowMS);
+  }
+
+  private isStale(fetchedAt: number | undefined, staleTimeMS = this.config.staleTimeMS): boolean {
+    if (staleTimeMS === undefined || fetchedAt === undefined) {
+      return false;
+    }
+    return this.now() - fetchedAt >= staleTimeMS;
+  }
+
+  private setStoreValue(
+    store: IRxStoreEntry<T, Params, TError>,
+    value: T,
+    error?: TError,
+    fetchedAt = this.now(),
+  ): IRxStore<T, TError> {
+    this.setEntryValue(store, value, fetchedAt);
+    // A forced refetch after a local update is not deduplicated against the fetch the update replaced
+    store.lastFetchSucceededAt = undefined;
+    const state = { error, fetchedAt, hasValue: true, isStale: this.isStale(fetchedAt), loading: false, value };
+    store.updateValueRS.next({ state, type: "set" });
+    return state;
+  }
+
+  private clearStoreValue(store: IRxStoreEntry<T, Params, TError>, error?: TError): IRxStore<T, TError> {
+    this.releaseEntities(store);
+    store.value = undefined;
+    store.hasValue = false;
+    store.fetchedAt = undefined;
+    store.lastFetchSucceededAt = undefined;
+    this.totalSize -= store.size;
+    store.size = 0;
+    if (this.config.persist) {
+      this.config.persist.adapter.removeItem(this.getStorageKey(store.key));
+    }
+    const state = { error, hasValue: false, isStale: false, loading: false, value: undefined };
+    store.updateValueRS.next({ state: { ...state, clearValue: true }, type: "set" });
+    return state;
+  }
+
+  // Records a newly resolved value against the entry (without emitting it)
+  private setEntryValue(store: IRxStoreEntry<T, Params, TError>, value: T, fetchedAt = this.now()): void {
+    this.trackEntryValue(store, value, fetchedAt);
+    // Like `sync`, the adapter only sees settled values, never optimistic ones
+    if (!store.pendingMutations.length) {
+      this.persist(store);
+    }
+    this.evict(store.key);
+  }
+
+  // Normalizes the value and updates the `sizeOf` accounting, shared with values restored from the adapter
+  private trackEntryValue(store: IRxStoreEntry<T, Params, TError>, value: T, fetchedAt: number): void {
+    this.normalize(store, value);
+    store.value = value;
+    store.hasValue = true;
+    store.fetchedAt = fetchedAt;
+    if (this.config.sizeOf) {
+      const size = this.config.sizeOf(value, store.params);
+      this.totalSize += size - store.size;
+      store.size = size;
+    }
+  }
+
+  // A value that isn't an array is a single entity
+  private getEntities(value: T | undefined): TRxEntityOf<T>[] {
+    const entities: TRxEntityOf<T>[] = Array.isArray(value) ? value : [value as TRxEntityOf<T>];
+    return entities.filter((entity) => this.isEntity(entity));
+  }
+
+  private isEntity(value: unknown): boolean {
+    return value !== null && typeof value === "object";
+  }
+
+  // Stores the entities of a new value in the entity cache, the entities of the previous value are released
+  private normalize(store: IRxStoreEntry<T, Params, TError>, value: T): void {
+    const { entity } = this.config;
+    if (!entity) {
+      return;
+    }
+    const entities = this.getEntities(value);
+    const ids = entities.map(entity.getId);
+    entity.cache.retain(entity.type, ids);
+    this.releaseEntities(store);
+    store.entityIds = ids;
+    entities.forEach((current, index) => entity.cache.put(entity.type, ids[index], current));
+  }
+
+  private releaseEntities(store: IRxStoreEntry<T, Params, TError>): void {
+    if (this.config.entity) {
+      this.config.entity.cache.release(this.config.entity.type, store.entityIds);
+      store.entityIds = [];
+    }
+  }
+
+  // Swaps the entities in `value` for their copies in the entity cache, `value` is returned when none differ
+  private denormalize(value: T): T {
+    const { cache, getId, type } = this.config.entity;
+    if (!Array.isArray(value)) {
+      const [entity] = this.getEntities(value);
+      return (entity && cache.get<T>(type, getId(entity))) || value;
+    }
+    const entities: TRxEntityOf<T>[] = value;
+    const current = entities.map((entity) =>
+      (this.isEntity(entity) && cache.get<TRxEntityOf<T>>(type, getId(entity))) || entity);
+    return current.some((entity, index) => entity !== entities[index]) ? (current as typeof value) : value;
+  }
+
+  private withCurrentEntities(
+    store: IRxStoreEntry<T, Params, TError>,
+    state: IRxStore<T, TError>,
+  ): Observable<IRxStore<T, TError>> {
+    const { entity } = this.config;
+    if (!entity || !state.hasValue) {
+      return of(state);
+    }
+    const ids = this.getEntities(state.value).map(entity.getId);
+    return entity.cache.watch(entity.type, ids).pipe(
+      map(() => {
+        const value = this.denormalize(state.value);
+        if (value === state.value) {
+          return state;
+        }
+        store.value = value;
+        return { ...state, value };
+      }),
+    );
+  }
+
+  private getStorageKey(key: string): string {
+    return this.config.name ? `${this.config.name}:${key}` : key;
+  }
+
+  private toPersistedEntry(store: IRxStoreEntry<T, Params, TError>): IRxPersistedEntry<T, Params> {
+    return {
+      fetchedAt: store.fetchedAt,
+      params: store.params,
+      value: store.value,
+      version: this.config.persist && this.config.persist.version,
+    };
+  }
+
+  private isCurrentVersion(entry: IRxPersistedEntry<T, Params> | undefined): boolean {
+    return !!entry && entry.version === (this.config.persist && this.config.persist.version);
+  }
+
+  private persist(store: IRxStoreEntry<T, Params, TError>): void {
+    if (this.config.persist) {
+      this.config.persist.adapter.setItem(this.getStorageKey(store.key), this.toPersistedEntry(store));
+    }
+  }
+
+  private readPersisted(key: string): IRxPersistedEntry<T, Params> | undefined {
+    if (!this.config.persist) {
+      return undefined;
+    }
+    const { adapter } = this.config.persist;
+    const entry = adapter.getItem<IRxPersistedEntry<T, Params>>(this.getStorageKey(key));
+    if (entry && !this.isCurrentVersion(entry)) {
+      adapter.removeItem(this.getStorageKey(key));
+      return undefined;
+    }
+    return entry;
+  }
+
+  private getRetryDelayMS(error: TError, retryCount: number, policy = this.config.retry): number | undefined {
+    if (!policy || retryCount + 1 >= policy.maxAttempts) {
+      return undefined;
+    }
+    if (policy.shouldRetry && !policy.shouldRetry(error, retryCount)) {
+      return undefined;
+    }
+    const { baseDelayMS = 1000, maxDelayMS = 30000, jitter = true } = policy;
+    const delayMS = Math.min(maxDelayMS, baseDelayMS * Math.pow(2, retryCount));
+    return jitter ? delayMS / 2 + Math.random() * (delayMS / 2) : delayMS;
+  }
+
+  private callFetcher(params: Params, extra: Extra | undefined, signal: IRxAbortSignal): Observable<T> {
+    return applyMiddleware(
+      this.getMiddleware(),
+      (nextParams, nextExtra) => this.fetcher(nextParams, nextExtra, signal),
+    )(params, extra);
+  }
+
+  private fetchWithRetry(
+    store: IRxStoreEntry<T, Params, TError>,
+    extra: Extra | undefined,
+    retryCount = 0,
+  ): Observable<IRxStore<T, TError>> {
+    const { key, params } = store;
+    let startedAt: number;
+    return abortable((signal) => {
+      startedAt = this.now();
+      this.emitEvent({ key, params, retryCount, timestamp: startedAt, type: "fetchStart" });
+      return this.callFetcher(params, extra, signal);
+    }).pipe(
+      map((value) => {
+        store.fetching = false;
+        store.lastFetchFailed = false;
+        store.lastFetchSucceededAt = this.now();
+        this.setEntryValue(store, value);
+        const timestamp = this.now();
+        this.emitEvent({ durationMS: timestamp - startedAt, key, params, retryCount, timestamp, type: "fetchSuccess" });
+        return { value, hasValue: true, loading: false, fetchedAt: store.fetchedAt, isStale: false, retryCount };
+      }),
+      catchError((err: Error) => {
+        const error = this.errorParserLogger(err);
+        const retryDelayMS = this.getRetryDelayMS(error, retryCount);
+        const timestamp = this.now();
+        this.emitEvent({
+          durationMS: timestamp - startedAt,
+          error,
+          key,
+          params,
+          retryCount,
+          timestamp,
+          type: "fetchError",
+          willRetry: retryDelayMS !== undefined,
+        });
+        if (retryDelayMS === undefined) {
+          store.fetching = false;
+          store.lastFetchFailed = true;
+          return of({ value: undefined, hasValue: false, loading: false, isStale: false, error, retryCount });
+        }
+        // We stay `loading` while waiting to retry, the error is kept so consumers can show why
+        const nextRetryAt = this.now() + retryDelayMS;
+        return concat(
+          of({ value: undefined, hasValue: false, loading: true, isStale: false, error, retryCount, nextRetryAt }),
+          timer(retryDelayMS, this.getScheduler()).pipe(
+            flatMap(() => this.fetchWithRetry(store, extra, retryCount + 1)),
+          ),
+        );
+      }),
+    );
+  }
+
+  // Every emission of a live source replaces the value, when the source errors or completes the last value is kept
+  // while reconnecting
+  private fetchLive(
+    store: IRxStoreEntry<T, Params, TError>,
+    extra: Extra | undefined,
+    retryCount = 0,
+  ): Observable<IRxStore<T, TError>> {
+    const { key, params } = store;
+    const liveConfig = typeof this.config.live === "object" ? this.config.live : {};
+    const { reconnect = { maxAttempts: Infinity } } = liveConfig;
+    let startedAt: number;
+    let connected = false;
+    let errored = false;
+    let error: TError | undefined;
+    const connection = abortable((signal) => {
+      startedAt = this.now();
+      this.emitEvent({ key, params, retryCount, timestamp: startedAt, type: "fetchStart" });
+      return this.callFetcher(params, extra, signal);
+    }).pipe(
+      map((value) => {
+        store.lastFetchFailed = false;
+        store.lastFetchSucceededAt = this.now();
+        this.setEntryValue(store, value);
+        if (!connected) {
+          connected = true;
+          const timestamp = this.now();
+          this.emitEvent({
+            durationMS: timestamp - startedAt,
+            key,
+            params,
+            retryCount,
+            timestamp,
+            type: "fetchSuccess",
+          });
+        }
+        return { connected, fetchedAt: store.fetchedAt, hasValue: true, isStale: false, loading: false, value };
+      }),
+      catchError((err: Error) => {
+        errored = true;
+        error = this.errorParserLogger(err);
+        return EMPTY;
+      }),
+    );
+    const disconnected = defer(() => {
+      // A connection that emitted resets the back off
+      const attempt = connected ? 0 : retryCount;
+      // A source that completed (rather than errored) is reconnected regardless of `shouldRetry`
+      const policy = errored ? reconnect : { ...reconnect, shouldRetry: undefined };
+      const retryDelayMS = this.getRetryDelayMS(error, attempt, policy);
+      if (errored) {
+        const timestamp = this.now();
+        this.emitEvent({
+          durationMS: timestamp - startedAt,
+          error,
+          key,
+          params,
+          retryCount: attempt,
+          timestamp,
+          type: "fetchError",
+          willRetry: retryDelayMS !== undefined,
+        });
+      }
+      const state = { error, hasValue: false, isStale: false, loading: !store.hasValue, value: undefined };
+      if (retryDelayMS === undefined) {
+        store.fetching = false;
+        store.lastFetchFailed = errored;
+        return of({ ...state, loading: false, retryCount: attempt });
+      }
+      const nextRetryAt = this.now() + retryDelayMS;
+      return concat(
+        of({ ...state, nextRetryAt, reconnecting: true, retryCount: attempt }),
+        timer(retryDelayMS, this.getScheduler()).pipe(
+          flatMap(() => this.fetchLive(store, extra, attempt + 1)),
+        ),
+      );
+    });
+    return concat(connection, disconnected);
+  }
+
+  // `key` is only passed when restoring an entry under a known key
+  private init(params: Params, extra?: Extra, key = this.getKey(params, extra)): IRxStoreEntry<T, Params, TError> {
+    if (this.store[key]) {
+      this.touch(key);
+      return this.store[key];
+    }
+    const updateValueRS = new ReplaySubject<TRxStoreAction<T, TError>>(1);
+    // A persisted value is used in place of the initial fetch
+    const persisted = this.readPersisted(key);
+    const store: IRxStoreEntry<T, Params, TError> = {
+      clearFromStorageTimer: undefined,
+      entityIds: [],
+      fetchedAt: undefined,
+      fetchCancelled: false,
+      fetching: false,
+      hasValue: false,
+      key,
+      lastFetchFailed: false,
+      observable: undefined,
+      params,
+      confirmedSequence: 0,
+      mutationInterruptedFetch: false,
+      pendingMutations: [],
+      size: 0,
+      subscriberCount: 0,
+      tags: new Set(),
+      updateValueRS,
+      value: undefined,
+    };
+    if (persisted) {
+      this.trackEntryValue(store, persisted.value, persisted.fetchedAt);
+    }
+    const networkFetchOb = new Observable<Observable<IRxStoreUpdate<T, TError>>>(
       (observer) => {
-        const store = this.store[key];
+        store.fetching = true;
+        store.fetchCancelled = false;
         // N.B It's not guaranteed that the subscriber will receive the below value (loading: true)
         // If the fetcher executes synchronously the store will only emit the most recent value
         // to the subscriber. Meaning this value is skipped.
-        observer.next(of({ loading: true, value: undefined }));
-        observer.next(
-          this.fetcher(params, extra).pipe(
-            map((value) => {
-              return { value, loading: false };
-            }),
-            catchError((err: Error) => {
-              const error = this.errorParserLogger(err);
-              store.lastFetchFailed = true;
-              return of({ value: undefined, loading: false, error });
-            }),
-          ),
-        );
+        observer.next(of({ hasValue: false, isStale: false, loading: true, value: undefined }));
+        observer.next(this.config.live ? this.fetchLive(store, extra) : this.fetchWithRetry(store, extra));
+        // A refetch (or local update) switches away from this fetch before it resolves
+        return () => {
+          store.fetching = false;
+        };
       },
     ).pipe(flatMap((x) => x));
     // If someone wants to update the currentValue with a local value (i.e the returned result of a push) we call
-    // next on the updateValueRS.
-    // If someone wants to refetch from the network they just call updateValueRS.next(undefined)
+    // next on the updateValueRS with a `set` action.
+    // If someone wants to refetch from the network they just call updateValueRS.next({ type: "fetch" })
     // which is what `expireKey` does
-    updateValueRS.next(undefined);
-    const networkFetchObWithRefetch: Observable<IRxStore<
+    updateValueRS.next(
+      persisted
+        ? {
+          state: {
+            fetchedAt: persisted.fetchedAt,
+            hasValue: true,
+            isStale: false,
+            loading: false,
+            value: persisted.value,
+          },
+          type: "set",
+        }
+        : { type: "fetch" },
+    );
+    const networkFetchObWithRefetch: Observable<IRxStoreUpdate<
       T,
       TError
     >> = updateValueRS.pipe(
-      switchMap((val) => {
-        if (val) {
-          return of(val);
+      switchMap((action) => {
+        if (action.type === "set") {
+          return of(action.state);
         } else {
           return networkFetchOb;
         }
@@ -186,46 +1165,116 @@ export class RxStore<T, Params, Extra = void, TError = Error> {
     >> = networkFetchObWithRefetch.pipe(
       // We always emit the previous value `stored` until its updated
       // The fetcher has no concept of the previous value `stored` so we merge
-      // the old value until a new value replaces it using pairwise.
-      // The pairwise requires an initial `previous` value before it kicks things off
-      startWith(undefined),
-      pairwise(),
-      map(([previousValue, newValue]) => {
+      // the old value until a new value replaces it using scan.
+      // Merging with the previously emitted (merged) value rather than the previous raw value means
+      // the value survives several value-less updates in a row (i.e a refetch that is cancelled and restarted)
+      scan((previousValue: IRxStore<T, TError> | undefined, newValue: IRxStoreUpdate<T, TError>) => {
+        const valueSource = !newValue.hasValue && !newValue.clearValue && previousValue ? previousValue : newValue;
         return {
+          fetchedAt: valueSource.fetchedAt,
+          hasValue: valueSource.hasValue,
+          isStale: this.isStale(valueSource.fetchedAt),
           loading: newValue.loading,
-          value:
-            (newValue && newValue.value) ||
-            (previousValue && previousValue.value),
+          value: valueSource.value,
+          ...(this.config.live
+            ? { connected: !!newValue.connected, reconnecting: !!newValue.reconnecting }
+            : undefined),
           ...(newValue.error ? { error: newValue.error } : undefined),
+          ...(newValue.retryCount ? { retryCount: newValue.retryCount } : undefined),
+          ...(newValue.nextRetryAt ? { nextRetryAt: newValue.nextRetryAt } : undefined),
         };
+      }, undefined),
+      // Values are rebuilt from the entity cache whenever one of their entities is updated, by any store
+      switchMap((state) => this.withCurrentEntities(store, state)),
+      tap((state) => {
+        const previousState = store.state;
+        store.state = state;
+        this.emitEvent({ key, params, previousState, state, timestamp: this.now(), type: "stateChange" });
       }),
       // This stops new subscribers re-triggering the whole stream and provides late subscribers the last value
       shareReplay(1)
     );
 
-    // If deleting from cache is enable we need to monitor the streams subscribers
-    const subscriberCountedStore = this.deleteFromCacheTimeMS
-      ? new SubscriberMonitor(
-        observable,
+    // Subscribers are counted so unused entries can be deleted after `deleteFromCacheTimeMS` and so that
+    // LRU eviction never touches an entry that is in use
+    store.observable = new SubscriberMonitor(
+      observable,
+      (subCount) => {
+        store.subscriberCount = subCount;
         // Cancel the timeout when there is any subscriber
-        (_) => clearTimeout(this.store[key].clearFromStorageTimer),
-        // Trigger the deletion of the key after the timeout
-        (subCount) => {
-          if (subCount === 0) {
-            this.store[key].clearFromStorageTimer = setTimeout(() => {
-              delete this.store[key];
-            }, this.deleteFromCacheTimeMS);
+        this.clearDeletionTimer(store);
+      },
+      (subCount) => {
+        store.subscriberCount = subCount;
+        if (subCount === 0) {
+          // Trigger the deletion of the key after the timeout
+          if (this.config.cancelUnobservedFetches && store.fetching) {
+            this.cancelFetch(store);
           }
-        },
-      )
-      : observable;
+          if (this.config.deleteFromCacheTimeMS) {
+            store.clearFromStorageTimer = this.getScheduler().schedule(() => {
+              this.removeEntry(key);
+              this.emitEvent({ key, params, reason: "unused", timestamp: this.now(), type: "evict" });
+            }, this.config.deleteFromCacheTimeMS);
+          }
+          this.evict();
+        }
+      },
+    );
 
-    this.store[key] = {
-      clearFromStorageTimer: undefined,
-      lastFetchFailed: false,
-      observable: subscriberCountedStore,
-      params,
-      updateValueRS,
-    };
+    this.store[key] = store;
+    this.emitEvent({ key, params, timestamp: this.now(), type: "init" });
+    this.touch(key);
+    this.evict(key);
+    return store;
+  }
+
+  private clearDeletionTimer(store: IRxStoreEntry<T, Params, TError>): void {
+    if (store.clearFromStorageTimer) {
+      store.clearFromStorageTimer.unsubscribe();
+      store.clearFromStorageTimer = undefined;
+    }
+  }
+
+  // Marks the entry as the most recently used
+  private touch(key: string): void {
+    this.recentlyUsed.delete(key);
+    this.recentlyUsed.add(key);
+  }
+
+  private removeEntry(key: string): void {
+    const store = this.store[key];
+    if (store) {
+      this.clearDeletionTimer(store);
+      this.totalSize -= store.size;
+      this.recentlyUsed.delete(key);
+      this.releaseEntities(store);
+      delete this.store[key];
+      delete this.handles[key];
+    }
+  }
+
+  // Evicts the least recently used entries without subscribers until the store is back within
+  // `maxEntries` and `maxSize`. `protectedKey` is the entry currently being created or updated.
+  private evict(protectedKey?: string): void {
+    const { maxEntries = Infinity, maxSize = Infinity, onEvict } = this.config;
+    const isOverLimit = () => this.recentlyUsed.size > maxEntries || this.totalSize > maxSize;
+    if (this.evictionSuspended || !isOverLimit()) {
+      return;
+    }
+    for (const key of Array.from(this.recentlyUsed)) {
+      const store = this.store[key];
+      if (key === protectedKey || store.subscriberCount > 0) {
+        continue;
+      }
+      this.removeEntry(key);
+      this.emitEvent({ key, params: store.params, reason: "limit", timestamp: this.now(), type: "evict" });
+      if (onEvict) {
+        onEvict(store.params, store.value);
+      }
+      if (!isOverLimit()) {
+        return;
+      }
+    }
   }
 }
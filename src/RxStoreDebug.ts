@@ -0,0 +1,40 @@
+import { Subscription } from "rxjs";
+import { filter } from "rxjs/operators";
+import { IRxStore, RxStore } from "./RxStore";
+import { IRxStoreStateChangeEvent } from "./RxStoreEvents";
+
+const describeState = <T, TError>(state: IRxStore<T, TError> | undefined): string => {
+  if (!state) {
+    return "new";
+  }
+  if (state.loading) {
+    if (!state.nextRetryAt) {
+      return "loading";
+    }
+    return `retrying #${state.retryCount + 1} at ${new Date(state.nextRetryAt).toISOString()}`;
+  }
+  if (state.error) {
+    return "error";
+  }
+  return state.hasValue ? "loaded" : "empty";
+};
+
+// Logs every state transition of every entry in `store`, along with how long the entry spent in its previous
+// state. Useful for finding entries that are stuck `loading`. Unsubscribe from the returned subscription to stop.
+export const debugRxStore = <T, Params, Extra, TError>(
+  store: RxStore<T, Params, Extra, TError>,
+  label = "RxStore",
+  // tslint:disable-next-line:no-console
+  log: (message: string, state: IRxStore<T, TError>) => void = console.log,
+): Subscription => {
+  const changedAt: { [key: string]: number } = {};
+  return store.events$
+    .pipe(filter((event): event is IRxStoreStateChangeEvent<T, Params, TError> => event.type === "stateChange"))
+    .subscribe(({ key, previousState, state, timestamp }) => {
+      const from = describeState(previousState);
+      const to = describeState(state);
+      const elapsed = changedAt[key] === undefined ? "" : ` after ${timestamp - changedAt[key]}ms`;
+      changedAt[key] = timestamp;
+      log(`${label}[${key}] ${from} -> ${to}${elapsed}`, state);
+    });
+};
@@ -0,0 +1,96 @@
+import { IRxStore } from "./RxStore";
+
+interface IRxStoreEntryEvent<Params> {
+  key: string;
+  params: Params;
+  // When the event happened, in ms since epoch
+  timestamp: number;
+}
+
+// An entry was created in the cache
+export interface IRxStoreInitEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "init";
+}
+
+// A `getStore` was served from the cache (or joined a fetch already in flight) without starting a fetch
+export interface IRxStoreCacheHitEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "cacheHit";
+}
+
+export interface IRxStoreFetchStartEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "fetchStart";
+  // 0 for the first attempt, incremented for every retry
+  retryCount: number;
+}
+
+export interface IRxStoreFetchSuccessEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "fetchSuccess";
+  retryCount: number;
+  // Time from the start of the attempt until the fetcher emitted
+  durationMS: number;
+}
+
+export interface IRxStoreFetchErrorEvent<Params, TError> extends IRxStoreEntryEvent<Params> {
+  type: "fetchError";
+  error: TError;
+  retryCount: number;
+  durationMS: number;
+  // True when the retry policy will try again
+  willRetry: boolean;
+}
+
+export interface IRxStoreExpireEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "expire";
+}
+
+export interface IRxStoreEvictEvent<Params> extends IRxStoreEntryEvent<Params> {
+  type: "evict";
+  // `limit` when evicted by `maxEntries`/`maxSize`, `unused` when deleted after `deleteFromCacheTimeMS`
+  reason: "limit" | "unused";
+}
+
+// The state emitted by an entry's observable changed, `previousState` is undefined for its first state
+export interface IRxStoreStateChangeEvent<T, Params, TError> extends IRxStoreEntryEvent<Params> {
+  type: "stateChange";
+  previousState?: IRxStore<T, TError>;
+  state: IRxStore<T, TError>;
+}
+
+// Emitted by `RxBatchingStore` every time a batch is sent to the `batchFetchingFunction`
+export interface IRxStoreBatchFlushedEvent<Params> {
+  type: "batchFlushed";
+  keys: string[];
+  params: Params[];
+  timestamp: number;
+  // Time the oldest request in the batch spent waiting in the buffer (and for a free slot)
+  bufferedMS: number;
+}
+
+export type TRxStoreEvent<T, Params, TError> =
+  | IRxStoreInitEvent<Params>
+  | IRxStoreCacheHitEvent<Params>
+  | IRxStoreFetchStartEvent<Params>
+  | IRxStoreFetchSuccessEvent<Params>
+  | IRxStoreFetchErrorEvent<Params, TError>
+  | IRxStoreExpireEvent<Params>
+  | IRxStoreEvictEvent<Params>
+  | IRxStoreStateChangeEvent<T, Params, TError>
+  | IRxStoreBatchFlushedEvent<Params>;
+
+export interface IRxStoreEntryStats {
+  subscriberCount: number;
+  fetching: boolean;
+  // True while the entry has no subscribers and is waiting to be deleted after `deleteFromCacheTimeMS`
+  pendingDeletion: boolean;
+}
+
+export interface IRxStoreStats {
+  entryCount: number;
+  inFlightCount: number;
+  hitCount: number;
+  missCount: number;
+  // hitCount / (hitCount + missCount), 0 until the first `getStore`
+  hitRatio: number;
+  subscriberCount: number;
+  entries: { [key: string]: IRxStoreEntryStats };
+}
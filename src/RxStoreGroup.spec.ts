@@ -0,0 +1,73 @@
+import { of } from "rxjs";
+import { RxBatchFetchingFunction, RxBatchingStore } from "./RxBatchingStore";
+import { RxStore, TFetcher } from "./RxStore";
+import { RxStoreGroup } from "./RxStoreGroup";
+
+interface IOrder {
+  id: string;
+  customerId: string;
+}
+
+describe("RxStoreGroup", () => {
+  let orderFetcher: TFetcher<IOrder, string>;
+  let orderStore: RxStore<IOrder, string>;
+  let statsFetcher: TFetcher<number, string>;
+  let statsStore: RxStore<number, string>;
+  let group: RxStoreGroup;
+
+  beforeEach(() => {
+    orderFetcher = jasmine.createSpy().and.callFake((id: string) => of({ customerId: "C1", id }));
+    orderStore = new RxStore(orderFetcher, (err) => err, {
+      tags: (order) => [`order:${order.id}`, `customer:${order.customerId}`],
+    });
+    statsFetcher = jasmine.createSpy().and.returnValue(of(1));
+    statsStore = new RxStore(statsFetcher, (err) => err, { tags: ["orders"] });
+    group = new RxStoreGroup([orderStore, statsStore]);
+  });
+
+  it("expires the entries tagged with any of the tags in every member store", () => {
+    orderStore.getStore("1").subscribe();
+    orderStore.getStore("2").subscribe();
+    statsStore.getStore("daily").subscribe();
+
+    group.invalidateTags(["order:1", "orders"]);
+    expect(orderFetcher).toHaveBeenCalledTimes(3);
+    expect(orderFetcher).toHaveBeenCalledWith("1", undefined, jasmine.anything());
+    expect(statsFetcher).toHaveBeenCalledTimes(2);
+
+    group.invalidateTags(["customer:C1"]);
+    expect(orderFetcher).toHaveBeenCalledTimes(5);
+  });
+
+  it("matches tags attached through updateStoreValue", () => {
+    orderStore.updateStoreValue("3", { customerId: "C2", id: "3" }, ["featured"]);
+    orderStore.getStore("3").subscribe();
+    group.invalidateTags(["featured"]);
+    expect(orderFetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores stores that have left the group", () => {
+    statsStore.getStore("daily").subscribe();
+    group.leave(statsStore);
+    group.invalidateTags(["orders"]);
+    expect(statsFetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("batches the refetches of RxBatchingStore members", async () => {
+    const batchFetcher: RxBatchFetchingFunction<IOrder, string> = jasmine.createSpy().and.callFake(
+      (requests) => of(requests.map(({ request }) => ({ request, response: { customerId: "C1", id: request } }))),
+    );
+    const batchingStore = new RxBatchingStore(batchFetcher, (err) => err.message, {
+      bufferTimeMS: 1,
+      tags: (order) => [`customer:${order.customerId}`],
+    });
+    group.join(batchingStore);
+    await batchingStore.prefetch(["1", "2"]);
+    batchingStore.getStore("1").subscribe();
+    batchingStore.getStore("2").subscribe();
+
+    group.invalidateTags(["customer:C1"]);
+    await batchingStore.prefetch(["1", "2"]);
+    expect(batchFetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,28 @@
+import { RxStore } from "./RxStore";
+
+// All the group needs of a store, any `RxStore` (or subclass) can join
+export type TRxStoreGroupMember = Pick<RxStore<unknown, unknown, unknown, unknown>, "expireTags">;
+
+// A registry of stores that can be invalidated together, i.e updating an order expires the order, the customer's
+// orders and the order stats wherever they are cached
+export class RxStoreGroup {
+  private members = new Set<TRxStoreGroupMember>();
+
+  constructor(stores: TRxStoreGroupMember[] = []) {
+    stores.forEach((store) => this.join(store));
+  }
+
+  public join(store: TRxStoreGroupMember): void {
+    this.members.add(store);
+  }
+
+  public leave(store: TRxStoreGroupMember): void {
+    this.members.delete(store);
+  }
+
+  // Expires every entry tagged with any of `tags` in every member store. The refetches all start synchronously so
+  // `RxBatchingStore` members send them as one batch.
+  public invalidateTags(tags: string[]): void {
+    this.members.forEach((store) => store.expireTags(tags));
+  }
+}
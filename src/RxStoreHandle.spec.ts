@@ -0,0 +1,77 @@
+import { of } from "rxjs";
+import { TestScheduler } from "rxjs/testing";
+import { RxStore } from "./RxStore";
+import { createTestStore } from "./RxTestStore";
+
+interface ITestObj {
+  test: string;
+}
+
+describe("RxStoreHandle", () => {
+  it("returns the same handle per key while it has an entry", () => {
+    const { store } = createTestStore<ITestObj, string>();
+    const handle = store.handle("A");
+    handle.subscribe(() => undefined);
+    expect(store.handle("A")).toBe(handle);
+    expect(store.handle("B")).not.toBe(handle);
+  });
+
+  it("doesn't hold on to handles of keys without an entry", () => {
+    const { fetcher, store } = createTestStore<ITestObj, string>();
+    const handle = store.handle("A");
+    handle.getSnapshot();
+    expect(store.handle("A")).not.toBe(handle);
+    expect(store.handle("A").getSnapshot()).toBe(handle.getSnapshot());
+    expect(fetcher.callCount()).toEqual(0);
+  });
+
+  it("gives stable snapshots that change with the state", () => {
+    const { fetcher, store } = createTestStore<ITestObj, string>();
+    const handle = store.handle("A");
+    const initialSnapshot = handle.getSnapshot();
+    expect(initialSnapshot).toEqual({ hasValue: false, isStale: false, loading: true, value: undefined });
+    expect(handle.getSnapshot()).toBe(initialSnapshot);
+    expect(fetcher.callCount()).toEqual(0);
+
+    const listener = jasmine.createSpy("listener");
+    handle.subscribe(listener);
+    expect(fetcher.callCount()).toEqual(1);
+    expect(listener).not.toHaveBeenCalled();
+    expect(handle.getSnapshot()).toBe(initialSnapshot);
+
+    fetcher.resolve("A", { test: "A" });
+    expect(listener).toHaveBeenCalledTimes(1);
+    const loadedSnapshot = handle.getSnapshot();
+    expect(loadedSnapshot).toEqual(jasmine.objectContaining({ loading: false, value: { test: "A" } }));
+    expect(handle.getSnapshot()).toBe(loadedSnapshot);
+  });
+
+  it("reads the settled value of synchronous fetchers", () => {
+    const store = new RxStore<ITestObj, string>((param) => of({ test: param }), (err) => err);
+    const handle = store.handle("A");
+    handle.subscribe(() => undefined);
+    expect(handle.getSnapshot()).toEqual(jasmine.objectContaining({ loading: false, value: { test: "A" } }));
+  });
+
+  it("holds one subscription to the entry while it has listeners", () => {
+    const scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+    const { fetcher, store } = createTestStore<ITestObj, string>({ deleteFromCacheTimeMS: 500, scheduler });
+    const handle = store.handle("A");
+    const unsubscribeFirst = handle.subscribe(() => undefined);
+    const unsubscribeSecond = handle.subscribe(() => undefined);
+    expect(store.getStats().subscriberCount).toEqual(1);
+
+    unsubscribeFirst();
+    scheduler.flush();
+    expect(store.has("A")).toBe(true);
+
+    unsubscribeSecond();
+    expect(store.getStats().subscriberCount).toEqual(0);
+    scheduler.flush();
+    expect(store.has("A")).toBe(false);
+    expect(store.handle("A")).not.toBe(handle);
+
+    handle.subscribe(() => undefined);
+    expect(fetcher.callCount("A")).toEqual(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { Observable, Subscription } from "rxjs";
+import { IRxStore } from "./RxStore";
+
+// What an entry reads as before its first fetch has emitted, subscribing starts the fetch
+const PENDING_STATE: IRxStore<undefined, never> = { hasValue: false, isStale: false, loading: true, value: undefined };
+
+// Keys that are missing and keys that are `undefined` are treated the same
+const isShallowEqual = (a: object, b: object): boolean =>
+  Object.keys({ ...a, ...b }).every((key) => a[key] === b[key]);
+
+// A synchronous `getSnapshot`/`subscribe` view of one store entry for UI frameworks, i.e React's
+// `useSyncExternalStore`. Snapshots keep their identity until the state changes and the handle holds a single
+// subscription to the entry while it has listeners, so `deleteFromCacheTimeMS` starts once the last one leaves.
+export class RxStoreHandle<T, TError = Error> {
+  public readonly getSnapshot = (): IRxStore<T, TError> => {
+    if (!this.subscription) {
+      this.setSnapshot(this.peek() || PENDING_STATE);
+    }
+    return this.snapshot;
+  }
+
+  public readonly subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (!this.subscription) {
+      // The entry is fetched again on resubscribe when it is stale or was deleted from the cache
+      this.subscription = this.getStore().subscribe((state) => {
+        if (this.setSnapshot(state)) {
+          this.listeners.forEach((notify) => notify());
+        }
+      });
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.subscription) {
+        this.subscription.unsubscribe();
+        this.subscription = undefined;
+      }
+    };
+  }
+
+  private listeners = new Set<() => void>();
+  private subscription?: Subscription;
+  private snapshot?: IRxStore<T, TError>;
+
+  constructor(
+    private readonly getStore: () => Observable<IRxStore<T, TError>>,
+    private readonly peek: () => IRxStore<T, TError> | undefined,
+  ) {}
+
+  // Returns whether the snapshot changed
+  private setSnapshot(state: IRxStore<T, TError>): boolean {
+    if (this.snapshot && isShallowEqual(this.snapshot, state)) {
+      return false;
+    }
+    this.snapshot = state;
+    return true;
+  }
+}
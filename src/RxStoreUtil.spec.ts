@@ -0,0 +1,71 @@
+import { of, throwError } from "rxjs";
+import { delay } from "rxjs/operators";
+import { RxBatchFetchingFunction, RxBatchingStore } from "./RxBatchingStore";
+import { RxStore, TFetcher } from "./RxStore";
+import { fetchValue, fetchValues } from "./RxStoreUtil";
+
+interface ITestObj {
+  test: string;
+}
+
+const toDelayedOb = (val) => of(val).pipe(delay(10));
+
+describe("RxStoreUtil", () => {
+  const TEST_PARAM = "TEST";
+  const TEST_RESULT = { test: "TEST_STRING" };
+
+  let rxStore: RxStore<ITestObj, string, void, string>;
+  let mockFetcher: TFetcher<ITestObj, string>;
+
+  beforeEach(() => {
+    mockFetcher = jasmine.createSpy().and.callFake((param: string) => toDelayedOb({ test: param }));
+    rxStore = new RxStore(mockFetcher, (err) => err.message);
+  });
+
+  describe("fetchValue", () => {
+    it("resolves the first settled value", async () => {
+      expect(await fetchValue(rxStore, TEST_PARAM)).toEqual({ test: TEST_PARAM });
+    });
+
+    it("shares the cache and in flight fetches with getStore", async () => {
+      rxStore.getStore(TEST_PARAM).subscribe();
+      await fetchValue(rxStore, TEST_PARAM);
+      await fetchValue(rxStore, TEST_PARAM);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it("refetches when forced", async () => {
+      rxStore.updateStoreValue(TEST_PARAM, TEST_RESULT);
+      expect(await fetchValue(rxStore, TEST_PARAM)).toEqual(TEST_RESULT);
+      expect(await fetchValue(rxStore, TEST_PARAM, { force: true })).toEqual({ test: TEST_PARAM });
+    });
+
+    it("rejects with the parsed error", async () => {
+      rxStore = new RxStore(() => throwError(new Error("NOPE")), (err) => err.message);
+      await expect(fetchValue(rxStore, TEST_PARAM)).rejects.toEqual("NOPE");
+    });
+  });
+
+  describe("fetchValues", () => {
+    it("resolves the values in the order of the params", async () => {
+      expect(await fetchValues(rxStore, ["A", "B"])).toEqual([{ test: "A" }, { test: "B" }]);
+    });
+
+    it("rejects with the first error", async () => {
+      rxStore = new RxStore(
+        (param: string) => (param === "B" ? throwError(new Error("NOPE")) : of({ test: param })),
+        (err) => err.message,
+      );
+      await expect(fetchValues(rxStore, ["A", "B"])).rejects.toEqual("NOPE");
+    });
+
+    it("sends the params of an RxBatchingStore as one batch", async () => {
+      const batchFetcher: RxBatchFetchingFunction<ITestObj, string> = jasmine.createSpy().and.callFake(
+        (requests) => of(requests.map(({ request }) => ({ request, response: { test: request } }))),
+      );
+      const batchingStore = new RxBatchingStore(batchFetcher, (err) => err.message, { bufferTimeMS: 1 });
+      expect(await fetchValues(batchingStore, ["A", "B"])).toEqual([{ test: "A" }, { test: "B" }]);
+      expect(batchFetcher).toHaveBeenCalledTimes(1);
+    });
+  });
+});
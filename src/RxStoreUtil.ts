@@ -1,5 +1,6 @@
-import { Observable } from "rxjs";
-import { filter, map } from "rxjs/operators";
+import { Observable, of, throwError } from "rxjs";
+import { filter, first, map, switchMap } from "rxjs/operators";
+import { IRxStoreOptions, RxStore } from "./RxStore";
 
 interface IHasLoading {
   loading: boolean;
@@ -31,3 +32,28 @@ export const storeMapToValue: TStoreMapToValue = <T>(
 export const storeMapToError: TStoreMapToError = <T>(
   source: Observable<IMaybeHasError<T>>,
 ): Observable<T> => source.pipe(map((store) => store.error));
+
+// Completes with the first settled value, or errors with the store's error
+export const storeToSettledValue = <T, TError>(
+  source: Observable<IHasLoading & IHasValue<T> & IMaybeHasError<TError>>,
+): Observable<T> =>
+  source.pipe(
+    first((store) => !store.loading),
+    switchMap((store) => (store.error !== undefined ? throwError(store.error) : of(store.value))),
+  );
+
+// Resolves the first settled value for `params` and rejects with the store's error. Shares the cache (and in flight
+// fetches) with `getStore`.
+export const fetchValue = <T, Params, Extra, TError>(
+  store: RxStore<T, Params, Extra, TError>,
+  params: Params,
+  options?: IRxStoreOptions<Extra>,
+): Promise<T> => store.getStore(params, options).pipe(storeToSettledValue).toPromise();
+
+// The `getStores` equivalent of `fetchValue`, values are resolved in the order of `params` and the first error
+// rejects the whole list
+export const fetchValues = <T, Params, Extra, TError>(
+  store: RxStore<T, Params, Extra, TError>,
+  params: Params[],
+  options?: IRxStoreOptions<Extra>,
+): Promise<T[]> => Promise.all(params.map((param) => fetchValue(store, param, options)));
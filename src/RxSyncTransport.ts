@@ -0,0 +1,33 @@
+export interface IRxSyncMessage {
+  // The `name` of the sending store, only stores with the same name apply the message
+  storeName: string;
+  // Identifies the sending store instance so it can ignore its own messages
+  senderId: string;
+  type: "update" | "remove" | "expire";
+  key: string;
+  params: unknown;
+  value?: unknown;
+  // Changes to a key are ordered by version (and then senderId), older changes never overwrite newer ones
+  version: number;
+}
+
+// Carries changes between store instances, i.e across browser tabs or worker instances
+export interface IRxSyncTransport {
+  postMessage(message: IRxSyncMessage): void;
+  // Returns a function that stops listening
+  subscribe(listener: (message: IRxSyncMessage) => void): () => void;
+}
+
+// Delivers messages synchronously to every store sharing the transport, for tests and in-process setups
+export class RxMemorySyncTransport implements IRxSyncTransport {
+  private listeners = new Set<(message: IRxSyncMessage) => void>();
+
+  public postMessage(message: IRxSyncMessage): void {
+    this.listeners.forEach((listener) => listener(message));
+  }
+
+  public subscribe(listener: (message: IRxSyncMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
@@ -0,0 +1,72 @@
+import { TestScheduler } from "rxjs/testing";
+import { map } from "rxjs/operators";
+import { RxStore } from "./RxStore";
+import { createTestBatchingStore, createTestStore } from "./RxTestStore";
+
+interface ITestObj {
+  test: string;
+}
+
+describe("RxTestStore", () => {
+  let scheduler: TestScheduler;
+
+  beforeEach(() => {
+    scheduler = new TestScheduler((actual, expected) => expect(actual).toEqual(expected));
+  });
+
+  describe("createTestStore", () => {
+    it("resolves and rejects fetches by params", () => {
+      const { fetcher, store } = createTestStore<ITestObj, string>();
+      const states = [];
+      store.getStore("A").subscribe((state) => states.push(state));
+      store.getStore("B").subscribe((state) => states.push(state));
+      expect(fetcher.callCount()).toEqual(2);
+      expect(fetcher.callCount("A")).toEqual(1);
+      expect(fetcher.isPending("A")).toBe(true);
+
+      fetcher.resolve("A", { test: "A" });
+      fetcher.reject("B", new Error("NOPE"));
+      expect(fetcher.isPending("A")).toBe(false);
+      expect(store.peek("A").value).toEqual({ test: "A" });
+      expect(store.peek("B").error).toEqual(new Error("NOPE"));
+    });
+
+    it("deletes unused entries on the injected scheduler", () => {
+      const { store } = createTestStore<ITestObj, string>({ deleteFromCacheTimeMS: 500, scheduler });
+      store.getStore("A").subscribe().unsubscribe();
+      expect(store.has("A")).toBe(true);
+      scheduler.flush();
+      expect(store.has("A")).toBe(false);
+    });
+  });
+
+  describe("createTestBatchingStore", () => {
+    it("buffers on the injected scheduler and responds once every item is settled", () => {
+      const { fetcher, store } = createTestBatchingStore<ITestObj, string>({ bufferTimeMS: 100, scheduler });
+      store.getStore("A").subscribe();
+      store.getStore("B").subscribe();
+      expect(fetcher.calls.length).toEqual(0);
+      scheduler.flush();
+      expect(fetcher.calls).toEqual([[{ request: "A" }, { request: "B" }]]);
+
+      fetcher.resolve("A", { test: "A" });
+      expect(store.peek("A").loading).toBe(true);
+      fetcher.reject("B", new Error("NOPE"));
+      expect(store.peek("A").value).toEqual({ test: "A" });
+      expect(store.peek("B").error).toEqual(new Error("NOPE"));
+    });
+  });
+
+  it("supports marble tests", () => {
+    scheduler.run(({ cold, expectObservable }) => {
+      const store = new RxStore<ITestObj, string>(() => cold<ITestObj>("-#"), (err) => err, {
+        retry: { baseDelayMS: 10, jitter: false, maxAttempts: 2 },
+        scheduler,
+      });
+      const states = store.getStore("A").pipe(
+        map((state) => state.loading ? (state.error ? "retrying" : "loading") : "failed"),
+      );
+      expectObservable(states).toBe("ab 10ms c", { a: "loading", b: "retrying", c: "failed" });
+    });
+  });
+});
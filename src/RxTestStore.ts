@@ -0,0 +1,20 @@
+import { IRxBatchingStoreConfig, RxBatchingStore } from "./RxBatchingStore";
+import { RxFakeBatchFetcher } from "./RxFakeBatchFetcher";
+import { RxFakeFetcher } from "./RxFakeFetcher";
+import { IRxStoreConfig, RxStore } from "./RxStore";
+
+// Builds a store backed by an `RxFakeFetcher` so code that consumes stores can be unit tested, errors are passed
+// through unparsed. Pass a `TestScheduler` as `config.scheduler` for marble tests.
+export const createTestStore = <T, Params, Extra = void>(config: IRxStoreConfig<T, Params, Extra, Error> = {}) => {
+  const fetcher = new RxFakeFetcher<T, Params, Extra>(config.paramHasher);
+  const store = new RxStore<T, Params, Extra, Error>(fetcher.fetch, (err) => err, config);
+  return { fetcher, store };
+};
+
+export const createTestBatchingStore = <T, Request, Extra = void>(
+  config: IRxBatchingStoreConfig<T, Request, Extra, Error> = {},
+) => {
+  const fetcher = new RxFakeBatchFetcher<T, Request, Extra>(config.paramHasher);
+  const store = new RxBatchingStore<T, Request, Extra, Error>(fetcher.fetch, (err) => err, config);
+  return { fetcher, store };
+};
@@ -2,3 +2,18 @@ export * from "./NodeObjectSorter";
 export * from "./RxStore";
 export * from "./RxBatchingStore";
 export * from "./RxStoreUtil";
+export * from "./RxStorageAdapter";
+export * from "./RxDerivedStore";
+export * from "./RxPaginatedStore";
+export * from "./RxAbortController";
+export * from "./RxEntityCache";
+export * from "./RxMiddleware";
+export * from "./RxStoreEvents";
+export * from "./RxStoreDebug";
+export * from "./RxStoreGroup";
+export * from "./RxStoreHandle";
+export * from "./RxSyncTransport";
+export * from "./RxBroadcastChannelSyncTransport";
+export * from "./RxFakeFetcher";
+export * from "./RxFakeBatchFetcher";
+export * from "./RxTestStore";